@@ -7,17 +7,27 @@ const vrtConfig = process.env.VRT_CONFIG
   ? JSON.parse(process.env.VRT_CONFIG)
   : { viewports: [{ name: 'desktop', width: 1920, height: 1080 }] };
 
+const browsers = vrtConfig.browsers && vrtConfig.browsers.length > 0
+  ? vrtConfig.browsers
+  : ['chromium'];
+
+// Resolved authentication for the environment under BASE_URL (see src/auth.ts)
+const auth = process.env.VRT_AUTH ? JSON.parse(process.env.VRT_AUTH) : {};
+
 // Use absolute paths based on user's working directory
 const workingDir = process.cwd();
 
+// Sharded comparisons also write a blob report for `playwright-vrt merge` (see src/runner.ts)
+const blobDir = process.env.VRT_BLOB_DIR;
+
 const ignoreHTTPSErrors = process.env.BASE_URL.endsWith("ddev.site") || process.env.BASE_URL.endsWith("localhost");
 
 export default {
   testDir: './tests',
   testMatch: '**/*.spec.js', // JavaScript test files
   fullyParallel: true,
-  retries: process.env.CI ? 2 : 1,
-  workers: 3,
+  retries: vrtConfig.retries ?? (process.env.CI ? 2 : 1),
+  workers: vrtConfig.workers ?? 3,
   timeout: 60000,
 
   // Store snapshots in playwright-snapshots/ for easy caching
@@ -38,6 +48,7 @@ export default {
         : join(workingDir, 'playwright-report', 'results.json')
     }],
     ['list'],
+    ...(blobDir ? [['blob', { outputDir: blobDir }]] : []),
   ],
 
   use: {
@@ -45,17 +56,24 @@ export default {
     trace: 'retain-on-failure',
     screenshot: 'on',
     ignoreHTTPSErrors: ignoreHTTPSErrors,
+    httpCredentials: auth.httpCredentials,
+    extraHTTPHeaders: auth.extraHTTPHeaders,
+    storageState: auth.storageState,
     launchOptions: {
       slowMo: 100,
     },
   },
 
-  // Create a project for each viewport
-  projects: vrtConfig.viewports.map((vp) => ({
-    name: vp.name,
+  // Create a project for each viewport and browser (naming as in src/projects.ts)
+  // Each browser keeps its baselines in its own folder: playwright-snapshots/<browser>/<viewport>/
+  projects: vrtConfig.viewports.flatMap((vp) => browsers.map((browser) => ({
+    name: `${vp.name}-${browser}`,
+    snapshotPathTemplate: `{snapshotDir}/${browser}/${vp.name}/{arg}{ext}`,
+    metadata: { viewport: vp.name, browser },
     use: {
+      browserName: browser,
       viewport: { width: vp.width, height: vp.height },
       deviceScaleFactor: 1,
     },
-  })),
+  }))),
 };
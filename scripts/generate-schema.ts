@@ -0,0 +1,12 @@
+#!/usr/bin/env bun
+
+/**
+ * Write playwright-vrt.schema.json from CONFIG_SCHEMA (run via `npm run schema`)
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG_SCHEMA } from '../src/schema.js';
+
+const outputPath = path.join(__dirname, '..', 'playwright-vrt.schema.json');
+fs.writeFileSync(outputPath, JSON.stringify(CONFIG_SCHEMA, null, 2) + '\n', 'utf-8');
+console.log(`✓ Schema written to ${outputPath}`);
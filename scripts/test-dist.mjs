@@ -0,0 +1,76 @@
+#!/usr/bin/env node
+
+/**
+ * Smoke test of the built package under Node (run `npm run build` first):
+ * the library entry point must import, load a config and start a run, and
+ * the CLI must start without Bun.
+ */
+
+import { spawnSync } from 'child_process';
+import { fileURLToPath, pathToFileURL } from 'url';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const failures = [];
+
+let api;
+try {
+  api = await import(pathToFileURL(path.join(root, 'dist/src/index.js')).href);
+  for (const name of ['runVRT', 'defineConfig', 'loadConfig', 'validateConfig', 'withDefaults']) {
+    if (typeof api[name] !== 'function') {
+      failures.push(`dist/src/index.js does not export ${name}()`);
+    }
+  }
+} catch (error) {
+  failures.push(`Importing dist/src/index.js failed: ${error.message}`);
+}
+
+// Runs work in the current directory (playwright-snapshots/), so use a scratch one
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'playwright-vrt-dist-'));
+const cwd = process.cwd();
+process.chdir(workDir);
+
+try {
+  if (api) {
+    const configPath = path.join(workDir, 'playwright-vrt.config.json');
+    fs.writeFileSync(configPath, JSON.stringify({ testUrl: 'https://example.com', urls: ['/'], maxUrls: 5 }));
+
+    let config;
+    try {
+      config = await api.loadConfig(configPath);
+      if (config.testUrl !== 'https://example.com' || config.maxUrls !== 5 || !config.viewports?.length) {
+        failures.push(`loadConfig() returned an unexpected config: ${JSON.stringify(config)}`);
+      }
+    } catch (error) {
+      failures.push(`loadConfig() failed: ${error.message}`);
+    }
+
+    // Without a reference URL or baseline, the run stops before starting Playwright
+    if (config) {
+      try {
+        await api.runVRT(config);
+        failures.push('runVRT() without a baseline did not fail');
+      } catch (error) {
+        if (!(error instanceof api.BaselineMissingError)) {
+          failures.push(`runVRT() failed with ${error.name} instead of BaselineMissingError: ${error.message}`);
+        }
+      }
+    }
+  }
+} finally {
+  process.chdir(cwd);
+  fs.rmSync(workDir, { recursive: true, force: true });
+}
+
+const cli = spawnSync(process.execPath, [path.join(root, 'dist/src/cli.js'), '--help'], { encoding: 'utf-8' });
+if (cli.status !== 0 || !cli.stdout.includes('Usage:')) {
+  failures.push(`node dist/src/cli.js --help exited with ${cli.status}:\n${cli.stderr}`);
+}
+
+if (failures.length > 0) {
+  failures.forEach((failure) => console.error(`❌ ${failure}`));
+  process.exit(1);
+}
+console.log(`✓ Built package works under Node ${process.version}`);
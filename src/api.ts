@@ -0,0 +1,349 @@
+#!/usr/bin/env bun
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { EventEmitter } from 'events';
+import { validateConfig, withDefaults, type UserConfig, type VRTConfig } from './config.js';
+import { collectURLs, saveURLs, readURLs, type URLSource } from './collect.js';
+import { prepareAuth } from './auth.js';
+import { runVisualTests, hasExistingSnapshots, type Logger, type TestResults } from './runner.js';
+import {
+  isCollectionValid,
+  saveCollection,
+  planBaseline,
+  pruneBaselines,
+  saveBaselineEntries,
+  cacheKey,
+  type BaselinePlan,
+  type CacheEntry,
+} from './cache.js';
+import { resolveProjects } from './projects.js';
+import { pullBaseline, pushBaseline, describeStorage } from './storage.js';
+import { findNotFound, type NotFoundPage, type ScreenshotResult } from './results.js';
+import { BaselineMissingError, URLCollectionError } from './errors.js';
+import type { SamplingRecord } from './sampling.js';
+
+export const SNAPSHOT_DIR = 'playwright-snapshots';
+
+export interface LoadedConfig {
+  config: VRTConfig;
+  /** false if the baseline comes from the test URL */
+  hasExplicitReference: boolean;
+}
+
+export interface VRTOptions {
+  /** Report and results directory (default: playwright-report) */
+  outputDir?: string;
+  /** Comma-separated projects, viewports or browsers to run */
+  project?: string;
+  /** Recollect the URLs and recreate every baseline */
+  updateBaseline?: boolean;
+  headed?: boolean;
+  /** Only run shard `i/n` of the URL/project pairs (merge the reports with `playwright-vrt merge`) */
+  shard?: string;
+  /** More detailed progress messages */
+  verbose?: boolean;
+  /** Progress messages (default: none) */
+  logger?: Logger;
+  /** Show the Playwright output or capture it (default) */
+  playwrightOutput?: 'inherit' | 'pipe';
+  /** Receives the lifecycle events */
+  events?: VRTEventEmitter;
+}
+
+export interface VRTResult extends TestResults {
+  urls: string[];
+  /** URL × project pairs whose baseline was (re)created */
+  baselinePairs: number;
+  /** Pages that do not exist on the test side */
+  notFound: NotFoundPage[];
+  outputDir: string;
+  reportPath: string;
+}
+
+/**
+ * Lifecycle events of runVRT() and their arguments
+ */
+export interface VRTEvents {
+  /** URLs are known, either collected or reused from urls.json */
+  urlsCollected: [{ urls: string[]; cached: boolean; source?: URLSource }];
+  /** Baseline screenshots are about to be taken (`pairs` = 0: all) */
+  baselineStarted: [{ pairs: number; partial: boolean }];
+  /** One compared screenshot, emitted for each result once Playwright finished */
+  pageCompared: [ScreenshotResult];
+  runFinished: [VRTResult];
+}
+
+export class VRTEventEmitter extends EventEmitter<VRTEvents> {}
+
+const silentLogger: Logger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Collect URLs from sitemap/crawler and save them with the cache hashes
+ */
+export async function collectAndSave(
+  loaded: LoadedConfig,
+  snapshotDir: string,
+  logger: Logger = console
+): Promise<{ urls: string[]; source: URLSource }> {
+  const { config, hasExplicitReference } = loaded;
+
+  const sitemaps = config.sitemaps || (config.urls?.length ? [] : [config.sitemapPath || '/sitemap.xml']);
+  if (config.urls?.length) {
+    logger.log(`   Listed: ${config.urls.length} URL(s)`);
+  }
+  sitemaps.forEach((sitemap) => logger.log(`   Sitemap: ${new URL(sitemap, config.referenceUrl)}`));
+  const auth = await prepareAuth(config, hasExplicitReference ? 'reference' : 'test', config.referenceUrl);
+  const urlResult = await collectURLs(config, auth);
+
+  logger.log(`✓ Found ${urlResult.total} URLs, filtered to ${urlResult.filtered}, using ${urlResult.urls.length}`);
+  logger.log(`  Source: ${urlResult.source}`);
+  logger.log(`  Sampling: ${describeSampling(urlResult.sampling)}`);
+
+  // Save URLs to snapshot directory (co-located with snapshots for easy caching)
+  saveURLs(urlResult, path.join(snapshotDir, 'urls.json'));
+
+  // Remember the collection settings, so that unchanged settings reuse urls.json
+  saveCollection(snapshotDir, config);
+
+  return { urls: urlResult.urls, source: urlResult.source };
+}
+
+/**
+ * Load the URLs saved by a previous collection
+ */
+export function loadSavedURLs(snapshotDir: string): string[] {
+  const urlsPath = path.join(snapshotDir, 'urls.json');
+  if (!fs.existsSync(urlsPath)) {
+    throw new URLCollectionError('No collected URLs found. Run "playwright-vrt collect" first.');
+  }
+
+  const urls = readURLs(urlsPath);
+  if (urls.length === 0) {
+    throw new URLCollectionError('No URLs found to test');
+  }
+  return urls;
+}
+
+function describeSampling(sampling: SamplingRecord): string {
+  const details = [
+    sampling.order && sampling.order !== 'sitemap' ? `order ${sampling.order}` : '',
+    sampling.perGroup ? `${sampling.perGroup} per group` : '',
+    sampling.groups ? `${Object.keys(sampling.groups).length} group(s)` : '',
+    sampling.seed !== undefined ? `seed ${sampling.seed}` : '',
+    sampling.listed ? `${sampling.listed} listed` : '',
+    sampling.alwaysInclude ? `${sampling.alwaysInclude.length} always included` : '',
+  ].filter(Boolean);
+  return `${sampling.strategy}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+}
+
+/**
+ * Compare the baselines with the current config, and delete those of removed URLs or projects
+ */
+export function planAndPrune(
+  config: VRTConfig,
+  urls: string[],
+  snapshotDir: string,
+  project?: string,
+  logger: Logger = console
+): BaselinePlan {
+  const projects = project ? resolveProjects(config, project) : undefined;
+  const plan = planBaseline(snapshotDir, config, urls, projects);
+
+  if (plan.removed.length > 0) {
+    pruneBaselines(snapshotDir, plan.removed);
+    logger.log(`🗑️  Pruned ${plan.removed.length} baseline(s) of removed URLs or projects`);
+  }
+
+  return plan;
+}
+
+/**
+ * Record the pairs whose baseline exists after creating it
+ * (with --shard, the other shards' pairs are left out)
+ */
+export function saveCreatedBaselines(snapshotDir: string, entries: CacheEntry[]): void {
+  saveBaselineEntries(snapshotDir, entries.filter((entry) => fs.existsSync(path.join(snapshotDir, entry.dir))));
+}
+
+/**
+ * Replace the local baseline with the stored one, if a storage is configured
+ */
+export async function pullFromStorage(config: VRTConfig, snapshotDir: string, logger: Logger = console): Promise<boolean> {
+  if (!config.storage) {
+    return false;
+  }
+
+  logger.log(`\n📥 Pulling baseline from ${describeStorage(config.storage)}`);
+  const result = await pullBaseline(config, snapshotDir);
+  if (!result) {
+    logger.log('   No stored baseline for this branch and config');
+    return false;
+  }
+
+  if (result.keptLocal) {
+    logger.warn(`⚠️ Keeping the local baseline: it has approvals that are not in ${result.key}`);
+    logger.warn('   Share them with `playwright-vrt push`, or delete playwright-snapshots/ to use the stored baseline');
+    return true;
+  }
+  logger.log(`✓ Pulled ${result.key}${result.fallback ? ` (fallback to branch "${result.branch}")` : ''}`);
+  return true;
+}
+
+/**
+ * Upload the local baseline, if a storage is configured
+ */
+export async function pushToStorage(config: VRTConfig, snapshotDir: string, logger: Logger = console): Promise<void> {
+  if (!config.storage) {
+    return;
+  }
+
+  logger.log(`\n📤 Pushing baseline to ${describeStorage(config.storage)}`);
+  const key = await pushBaseline(config, snapshotDir);
+  logger.log(`✓ Pushed ${key}`);
+}
+
+/**
+ * Run all phases like `playwright-vrt run`: collect URLs, create the missing or
+ * outdated baselines and compare the test URL. Cached URLs and baselines are
+ * reused where valid. Works in the current directory (playwright-snapshots/).
+ *
+ * Without `referenceUrl`, the baseline comes from the test URL and must
+ * already exist (or `updateBaseline` is set).
+ * Throws a VRTError subclass (e.g. ConfigValidationError) instead of exiting.
+ */
+export async function runVRT(userConfig: UserConfig, options: VRTOptions = {}): Promise<VRTResult> {
+  const logger = options.logger || silentLogger;
+  const events = options.events || new VRTEventEmitter();
+
+  const config = withDefaults(userConfig);
+  const hasExplicitReference = !!config.referenceUrl;
+  if (!config.referenceUrl) {
+    config.referenceUrl = config.testUrl;
+  }
+  validateConfig(config).forEach((warning) => logger.warn(`⚠️ Config: ${warning}`));
+
+  logger.log('🚀 Starting Visual Regression Testing');
+  logger.log(`   Reference: ${config.referenceUrl}`);
+  logger.log(`   Test: ${config.testUrl}`);
+
+  // Create snapshot directory for URLs and snapshots
+  const snapshotDir = path.resolve(SNAPSHOT_DIR);
+  const outputDir = path.resolve(options.outputDir || 'playwright-report');
+  fs.mkdirSync(snapshotDir, { recursive: true });
+
+  if (options.verbose) {
+    logger.log(`📁 Snapshots: ${snapshotDir}`);
+    logger.log(`📁 Output: ${outputDir}`);
+  }
+
+  const urlsPath = path.join(snapshotDir, 'urls.json');
+  let urls: string[] = [];
+
+  // A shared baseline replaces the local one (and brings its urls.json)
+  if (!options.updateBaseline) {
+    await pullFromStorage(config, snapshotDir, logger);
+  }
+
+  // Reuse the URLs unless the collection settings changed (or updateBaseline)
+  if (!options.updateBaseline && isCollectionValid(snapshotDir, config)) {
+    logger.log('\n📋 Using cached URLs from previous run');
+    urls = loadSavedURLs(snapshotDir);
+    logger.log(`✓ Loaded ${urls.length} URLs from cache`);
+
+    if (options.verbose) {
+      logger.log('   (Use --update-baseline to regenerate URLs)');
+    }
+    events.emit('urlsCollected', { urls, cached: true });
+  } else {
+    // Collect URLs from sitemap/crawler
+    if (options.updateBaseline) {
+      logger.log('\n🔄 Updating baseline (regenerating URLs)...');
+    } else if (fs.existsSync(urlsPath)) {
+      logger.log('\n🔄 URL collection settings changed, regenerating URLs...');
+    } else {
+      logger.log('\n🔍 Collecting URLs (first run)...');
+    }
+
+    const collected = await collectAndSave({ config, hasExplicitReference }, snapshotDir, logger);
+    urls = collected.urls;
+    events.emit('urlsCollected', { urls, cached: false, source: collected.source });
+  }
+
+  if (urls.length === 0) {
+    throw new URLCollectionError('No URLs found to test');
+  }
+
+  if (options.verbose) {
+    logger.log('\n📝 URLs to test:');
+    urls.forEach((url, i) => logger.log(`  ${i + 1}. ${url}`));
+  }
+
+  // Only pairs of URL × project whose settings changed need a new baseline
+  const plan = planAndPrune(config, urls, snapshotDir, options.project, logger);
+  const pairs = options.updateBaseline ? [...plan.stale, ...plan.current] : plan.stale;
+  const partial = !options.updateBaseline && plan.stale.length > 0 && plan.current.length > 0;
+
+  if (!hasExplicitReference && plan.stale.length > 0 && !options.updateBaseline) {
+    throw new BaselineMissingError(
+      `${plan.stale.length} baseline snapshot(s) missing or outdated and no reference URL provided`,
+      plan.stale.map(cacheKey)
+    );
+  }
+
+  if (partial) {
+    logger.log(`\n📸 ${plan.current.length} baseline(s) up to date, ${plan.stale.length} to regenerate`);
+    if (options.verbose) {
+      plan.stale.forEach((entry) => logger.log(`   ${entry.project}: ${entry.url}`));
+    }
+  }
+
+  if (pairs.length > 0 || !hasExistingSnapshots(snapshotDir)) {
+    events.emit('baselineStarted', { pairs: pairs.length, partial });
+  }
+
+  // Run visual regression tests using shipped Playwright config and tests
+  const results = await runVisualTests({
+    config,
+    outputDir,
+    verbose: options.verbose,
+    project: options.project,
+    updateBaseline: pairs.length > 0,
+    baselinePairs: partial ? pairs.map(cacheKey) : undefined,
+    hasExplicitReference,
+    headed: options.headed,
+    shard: options.shard,
+    logger,
+    playwrightOutput: options.playwrightOutput || 'pipe',
+  });
+
+  if (pairs.length > 0) {
+    saveCreatedBaselines(snapshotDir, pairs);
+    // A shard only has part of the baseline, which must not replace the stored one
+    if (options.shard) {
+      if (config.storage) {
+        logger.log(`\n📤 Not pushing the partial baseline of shard ${options.shard}`);
+      }
+    } else {
+      await pushToStorage(config, snapshotDir, logger);
+    }
+  }
+
+  results.screenshots.forEach((screenshot) => events.emit('pageCompared', screenshot));
+
+  const result: VRTResult = {
+    ...results,
+    urls,
+    baselinePairs: pairs.length,
+    notFound: findNotFound(results.screenshots),
+    outputDir,
+    reportPath: path.join(outputDir, 'index.html'),
+  };
+  events.emit('runFinished', result);
+
+  return result;
+}
@@ -0,0 +1,101 @@
+#!/usr/bin/env bun
+
+import * as fs from 'fs';
+import * as path from 'path';
+import micromatch from 'micromatch';
+import { recordApproval } from './cache.js';
+import type { ResultsExport, ScreenshotResult } from './results.js';
+
+export interface ApproveOptions {
+  outputDir: string;
+  snapshotDir: string;
+  urls?: string[];
+  projects?: string[];
+  ids?: string[];
+  dryRun?: boolean;
+}
+
+export interface ApproveResult {
+  approved: ScreenshotResult[];
+  skipped: ScreenshotResult[];
+}
+
+/**
+ * Check if a result matches the approve filters.
+ * Without filters, every changed screenshot is approved.
+ */
+function matchesFilters(entry: ScreenshotResult, options: ApproveOptions): boolean {
+  if (options.urls?.length) {
+    const urlObj = new URL(entry.url);
+    const urlPath = urlObj.pathname + urlObj.search;
+    if (!micromatch.isMatch(urlPath, options.urls, { bash: true })) {
+      return false;
+    }
+  }
+
+  if (options.projects?.length) {
+    const names = [entry.project, entry.viewport, entry.browser];
+    if (!options.projects.some((project) => names.includes(project))) {
+      return false;
+    }
+  }
+
+  if (options.ids?.length && !options.ids.includes(entry.id)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Copy the actual screenshots of the last run into the baseline
+ */
+export function approveChanges(options: ApproveOptions): ApproveResult {
+  const resultsPath = path.join(options.outputDir, 'vrt-results.json');
+  if (!fs.existsSync(resultsPath)) {
+    throw new Error(`No results found at ${resultsPath}. Run the tests first.`);
+  }
+
+  const report: ResultsExport = JSON.parse(fs.readFileSync(resultsPath, 'utf-8'));
+  const changed = report.results.filter((entry) =>
+    entry.status !== 'passed' && !entry.approvedAt && entry.actual && entry.baseline
+  );
+
+  const approved: ScreenshotResult[] = [];
+  const skipped: ScreenshotResult[] = [];
+
+  for (const entry of changed) {
+    if (!matchesFilters(entry, options)) {
+      continue;
+    }
+
+    // playwright-tmp/ is cleared on each run, the actual image may be gone
+    if (!fs.existsSync(entry.actual!)) {
+      skipped.push(entry);
+      continue;
+    }
+
+    if (!options.dryRun) {
+      fs.mkdirSync(path.dirname(entry.baseline!), { recursive: true });
+      fs.copyFileSync(entry.actual!, entry.baseline!);
+      // Keep the content snapshot in line with the approved image (see tests/lib/content.js)
+      if (entry.contentDiff && fs.existsSync(entry.contentDiff.actual)) {
+        fs.copyFileSync(entry.contentDiff.actual, entry.baseline!.replace(/\.png$/, '.content.json'));
+      }
+    }
+    approved.push(entry);
+  }
+
+  if (!options.dryRun && approved.length > 0) {
+    recordApproval(options.snapshotDir, approved.map((entry) => path.relative(options.snapshotDir, entry.baseline!)));
+
+    // Mark approved entries, so they are not approved twice
+    const approvedAt = new Date().toISOString();
+    for (const entry of approved) {
+      entry.approvedAt = approvedAt;
+    }
+    fs.writeFileSync(resultsPath, JSON.stringify(report, null, 2), 'utf-8');
+  }
+
+  return { approved, skipped };
+}
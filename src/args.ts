@@ -0,0 +1,320 @@
+#!/usr/bin/env bun
+
+import type { CLIOptions } from './config.js';
+
+export type Command = 'run' | 'collect' | 'baseline' | 'test' | 'merge' | 'approve' | 'pull' | 'push' | 'status' | 'validate-config' | 'clean';
+
+export const COMMANDS: Command[] = [
+  'run', 'collect', 'baseline', 'test', 'merge', 'approve', 'pull', 'push', 'status', 'validate-config', 'clean',
+];
+
+/**
+ * Invalid command line usage (unknown command or flag, invalid value)
+ */
+export class UsageError extends Error {
+  constructor(message: string, readonly command?: Command) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export interface ParsedArgs {
+  command: Command;
+  options: CLIOptions;
+  help: boolean;
+}
+
+/** Options whose values are exactly of type T */
+type OptionKey<T> = {
+  [K in keyof CLIOptions]-?: [NonNullable<CLIOptions[K]>] extends [T] ? ([T] extends [NonNullable<CLIOptions[K]>] ? K : never) : never
+}[keyof CLIOptions];
+
+interface FlagInfo {
+  value?: string;
+  description: string;
+}
+
+type FlagDefinition = FlagInfo & (
+  | { type: 'string'; key: OptionKey<string> }
+  | { type: 'boolean'; key: OptionKey<boolean> }
+  | { type: 'list'; key: OptionKey<string[]> }
+  | {
+      type: 'integer';
+      key: OptionKey<number>;
+      /** Smallest allowed integer (default: 1) */
+      min?: number;
+    }
+  /** A positive integer or a percentage of the CPU cores (`50%`) */
+  | { type: 'count'; key: OptionKey<number | string> }
+);
+
+const FLAGS: Record<string, FlagDefinition> = {
+  '--config': { key: 'config', type: 'string', value: '<path>', description: 'Path to config file with testUrl/referenceUrl' },
+  '--test': { key: 'test', type: 'string', value: '<url>', description: 'Test URL' },
+  '--reference': { key: 'reference', type: 'string', value: '<url>', description: 'Reference URL (defaults to --test URL or config)' },
+  '--output': { key: 'output', type: 'string', value: '<dir>', description: 'Output directory (default: ./playwright-report)' },
+  '--max-urls': { key: 'maxUrls', type: 'integer', value: '<number>', description: 'Override config maxUrls' },
+  '--urls-file': { key: 'urlsFile', type: 'string', value: '<path>', description: 'Test the URLs or paths listed in a file (.txt, .json or .csv)' },
+  '--project': { key: 'project', type: 'string', value: '<names>', description: 'Projects to run: viewport, browser or viewport-browser\n                         names, comma-separated (default: all)' },
+  '--verbose': { key: 'verbose', type: 'boolean', description: 'Detailed logging' },
+  '--headed': { key: 'headed', type: 'boolean', description: 'Run browser in headed mode (visible)' },
+  '--update-baseline': { key: 'updateBaseline', type: 'boolean', description: 'Force regenerate URLs and baseline snapshots' },
+  '--url': { key: 'urls', type: 'list', value: '<globs>', description: 'Only approve URLs matching these path globs (comma-separated)' },
+  '--id': { key: 'ids', type: 'list', value: '<ids>', description: 'Only approve these test IDs (from vrt-results.json)' },
+  '--dry-run': { key: 'dryRun', type: 'boolean', description: 'List the screenshots without copying them' },
+  '--shard': { key: 'shard', type: 'string', value: '<i/n>', description: 'Only run shard i of n (URL/project pairs split across CI jobs)' },
+  '--workers': { key: 'workers', type: 'count', value: '<number|n%>', description: 'Override config workers (parallel browsers, or % of CPU cores)' },
+  '--retries': { key: 'retries', type: 'integer', value: '<number>', description: 'Override config retries of failed tests', min: 0 },
+  '--blob-dir': { key: 'blobDir', type: 'string', value: '<dir>', description: 'Directory with the blob reports of all shards (default: ./blob-report)' },
+};
+
+const CONFIG_FLAGS = ['--test', '--config', '--reference', '--max-urls'];
+
+const PLAYWRIGHT_FLAGS = ['--shard', '--workers', '--retries'];
+
+interface CommandDefinition {
+  summary: string;
+  flags: string[];
+  aliases?: Record<string, string>;
+  descriptions?: Record<string, string>;
+  help?: string;
+}
+
+const COMMAND_DEFINITIONS: Record<Command, CommandDefinition> = {
+  run: {
+    summary: 'Collect URLs, create the baseline if needed and compare (all phases)',
+    flags: [...CONFIG_FLAGS, '--urls-file', '--output', '--project', ...PLAYWRIGHT_FLAGS, '--verbose', '--headed', '--update-baseline'],
+  },
+  collect: {
+    summary: 'Collect URLs and write playwright-snapshots/urls.json only',
+    flags: [...CONFIG_FLAGS, '--urls-file', '--verbose'],
+  },
+  baseline: {
+    summary: 'Take baseline screenshots from the reference URL only',
+    flags: [...CONFIG_FLAGS, '--output', '--project', ...PLAYWRIGHT_FLAGS, '--verbose', '--headed'],
+    help: 'Uses the URLs from urls.json (run "collect" first) and always recreates the baseline.',
+  },
+  test: {
+    summary: 'Compare the test URL against the existing baseline only',
+    flags: [...CONFIG_FLAGS, '--output', '--project', ...PLAYWRIGHT_FLAGS, '--verbose', '--headed'],
+    help: 'Requires urls.json and baseline snapshots from "collect" and "baseline" (or "run").',
+  },
+  merge: {
+    summary: 'Combine the results of sharded runs into one report and totals',
+    flags: ['--config', '--blob-dir', '--output', '--verbose'],
+    descriptions: {
+      '--config': 'Config file (for viewport and browser names in the results)',
+    },
+    help: 'Merges the blob reports written by "run --shard" or "test --shard" jobs.\n' +
+      'Exits with code 1 if any shard has visual differences.',
+  },
+  approve: {
+    summary: 'Accept actual screenshots of the last run into the baseline',
+    flags: ['--url', '--project', '--id', '--output', '--dry-run'],
+    aliases: { '--viewport': '--project' },
+    descriptions: {
+      '--project': 'Only approve these projects, viewports or browsers',
+      '--output': 'Report directory of the last run (default: ./playwright-report)',
+    },
+    help: 'Copies the actual screenshots of the last run (playwright-tmp/) into the\n' +
+      'baseline (playwright-snapshots/). Without filters, all changes are approved.',
+  },
+  pull: {
+    summary: 'Download the stored baseline of this branch (or the fallback branch)',
+    flags: [...CONFIG_FLAGS, '--verbose'],
+    help: 'Replaces playwright-snapshots/ with the baseline from the configured "storage".',
+  },
+  push: {
+    summary: 'Upload playwright-snapshots/ as the baseline of this branch',
+    flags: [...CONFIG_FLAGS, '--verbose'],
+    help: 'Uploads the local baseline to the configured "storage", e.g. after "approve".',
+  },
+  status: {
+    summary: 'Show cached URLs, baseline and last results',
+    flags: ['--config', '--output', '--verbose'],
+  },
+  'validate-config': {
+    summary: 'Validate the config file against the schema without running tests',
+    flags: ['--config', '--test', '--reference'],
+    help: 'Lists every invalid value with its key path and warns about unknown keys.\n' +
+      'Exits with code 1 if the config is invalid.',
+  },
+  clean: {
+    summary: 'Remove playwright-snapshots/, playwright-report/, playwright-tmp/, blob-report/ and .playwright-vrt/auth/',
+    flags: [],
+  },
+};
+
+function readValue(flag: string, value: string | undefined, command: Command): string {
+  if (value === undefined || value.startsWith('--')) {
+    throw new UsageError(`Missing value for ${flag}`, command);
+  }
+  return value;
+}
+
+function parseInteger(flag: string, value: string, min: number, command: Command): number {
+  if (!/^\d+$/.test(value) || parseInt(value, 10) < min) {
+    throw new UsageError(`Invalid value for ${flag}: "${value}" (expected ${min === 1 ? 'a positive' : 'a non-negative'} integer)`, command);
+  }
+  return parseInt(value, 10);
+}
+
+function parseCount(flag: string, value: string, command: Command): number | string {
+  if (/^\d+%?$/.test(value) && parseInt(value, 10) > 0) {
+    return value.endsWith('%') ? value : parseInt(value, 10);
+  }
+  throw new UsageError(`Invalid value for ${flag}: "${value}" (expected a positive integer or a percentage like 50%)`, command);
+}
+
+function parseList(flag: string, value: string, command: Command): string[] {
+  const items = value.split(',').map((item) => item.trim()).filter(Boolean);
+  if (items.length === 0) {
+    throw new UsageError(`Invalid value for ${flag}: "${value}"`, command);
+  }
+  return items;
+}
+
+function parseString(flag: string, value: string, command: Command): string {
+  if (flag === '--shard') {
+    const match = value.match(/^(\d+)\/(\d+)$/);
+    if (!match || parseInt(match[1], 10) < 1 || parseInt(match[1], 10) > parseInt(match[2], 10)) {
+      throw new UsageError(`Invalid value for ${flag}: "${value}" (expected i/n, e.g. 1/4)`, command);
+    }
+  }
+  return value;
+}
+
+/**
+ * Parse command line arguments (without the runtime and script path).
+ * Without a command, `run` is assumed for backwards compatibility.
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  let command: Command = 'run';
+  let rest = argv;
+
+  if (argv.length > 0 && !argv[0].startsWith('-')) {
+    if (!COMMANDS.includes(argv[0] as Command)) {
+      throw new UsageError(`Unknown command "${argv[0]}"`);
+    }
+    command = argv[0] as Command;
+    rest = argv.slice(1);
+  }
+
+  // Legacy flag: `playwright-vrt --clean`
+  if (command === 'run' && rest.includes('--clean')) {
+    command = 'clean';
+    rest = rest.filter((arg) => arg !== '--clean');
+  }
+
+  const definition = COMMAND_DEFINITIONS[command];
+  const options: CLIOptions = { config: '' };
+  let help = false;
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+
+    if (arg === '--help' || arg === '-h') {
+      help = true;
+      continue;
+    }
+
+    const flag = definition.aliases?.[arg] || arg;
+    if (!definition.flags.includes(flag)) {
+      throw new UsageError(
+        arg.startsWith('-') ? `Unknown option "${arg}" for "${command}"` : `Unexpected argument "${arg}"`,
+        command
+      );
+    }
+
+    const flagDefinition = FLAGS[flag];
+    if (flagDefinition.type === 'boolean') {
+      options[flagDefinition.key] = true;
+      continue;
+    }
+
+    const value = readValue(arg, rest[i + 1], command);
+    i++;
+
+    if (flagDefinition.type === 'integer') {
+      options[flagDefinition.key] = parseInteger(arg, value, flagDefinition.min ?? 1, command);
+    } else if (flagDefinition.type === 'count') {
+      options[flagDefinition.key] = parseCount(arg, value, command);
+    } else if (flagDefinition.type === 'list') {
+      options[flagDefinition.key] = [...(options[flagDefinition.key] || []), ...parseList(arg, value, command)];
+    } else {
+      options[flagDefinition.key] = parseString(arg, value, command);
+    }
+  }
+
+  return { command, options, help };
+}
+
+/**
+ * Print the general usage, or the help of a single command
+ */
+export function printUsage(command?: Command): void {
+  if (!command) {
+    console.log(`
+Usage: playwright-vrt <command> [options]
+
+Commands:
+${COMMANDS.map((name) => `  ${name.padEnd(22)} ${COMMAND_DEFINITIONS[name].summary}`).join('\n')}
+
+Run "playwright-vrt <command> --help" for the options of a command.
+
+Examples:
+  # Minimal - compare staging against itself (first run creates baseline)
+  bunx playwright-vrt run --test https://staging.example.com
+
+  # Compare staging against production
+  bunx playwright-vrt run \\
+    --reference https://production.com \\
+    --test https://staging.com
+
+  # With config file only (contains testUrl and referenceUrl)
+  bunx playwright-vrt run --config ./playwright-vrt.config.json
+
+  # Create the baseline in one CI job, compare in later jobs
+  bunx playwright-vrt collect --config ./playwright-vrt.config.json
+  bunx playwright-vrt baseline --config ./playwright-vrt.config.json
+  bunx playwright-vrt test --config ./playwright-vrt.config.json --test https://preview-123.staging.com
+
+Directories:
+  playwright-snapshots/  Baseline snapshots and URLs (cache this!)
+  playwright-report/     HTML test report
+  playwright-tmp/        Temporary test artifacts (cleared on each run)
+  blob-report/           Shard report for "playwright-vrt merge" (with --shard)
+  .playwright-vrt/auth/  Session state of the auth settings (deleted after each run)
+
+  Clean with: playwright-vrt clean
+  Or manually: rm -rf playwright-snapshots playwright-report playwright-tmp blob-report .playwright-vrt/auth
+`);
+    return;
+  }
+
+  const definition = COMMAND_DEFINITIONS[command];
+  const requiresURL = definition.flags.includes('--test');
+  const optionFlags = requiresURL
+    ? definition.flags.filter((flag) => flag !== '--test' && flag !== '--config')
+    : definition.flags;
+
+  const flagLines = optionFlags.map((flag) => {
+    const flagDefinition = FLAGS[flag];
+    const label = flagDefinition.value ? `${flag} ${flagDefinition.value}` : flag;
+    const description = definition.descriptions?.[flag] || flagDefinition.description;
+    return `  ${label.padEnd(22)} ${description}`;
+  });
+  for (const [alias, target] of Object.entries(definition.aliases || {})) {
+    flagLines.push(`  ${`${alias} ${FLAGS[target].value || ''}`.trim().padEnd(22)} Alias for ${target}`);
+  }
+  flagLines.push(`  ${'--help, -h'.padEnd(22)} Show this help message`);
+
+  console.log(`
+Usage: playwright-vrt ${command} [options]
+
+${definition.summary}.${definition.help ? `\n${definition.help}` : ''}
+${requiresURL ? '\nRequired (one of):\n  --test <url>           Test URL\n  --config <path>        Path to config file with testUrl/referenceUrl\n' : ''}
+Options:
+${flagLines.join('\n')}
+`);
+}
@@ -0,0 +1,213 @@
+#!/usr/bin/env bun
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { chromium, type BrowserContextOptions } from 'playwright';
+import { Workspace } from './workspace.js';
+import { AuthError } from './errors.js';
+import type { AuthConfig, VRTConfig } from './config.js';
+
+export type AuthTarget = 'reference' | 'test';
+
+/** Session state of logins and cookies, inside the .playwright-vrt/ workspace */
+export const AUTH_STATE_DIR = '.playwright-vrt/auth';
+
+/**
+ * Resolved authentication, ready to be used as Playwright context options
+ */
+export interface AuthContext {
+  httpCredentials?: {
+    username: string;
+    password: string;
+    origin?: string;
+  };
+  extraHTTPHeaders?: Record<string, string>;
+  storageState?: string;
+}
+
+type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+
+const prepared = new Map<string, Promise<AuthContext>>();
+
+/** Session state files of this process, deleted when it exits */
+const stateFiles = new Set<string>();
+
+function removeOnExit(filePath: string): void {
+  if (stateFiles.size === 0) {
+    process.once('exit', () => stateFiles.forEach((file) => fs.rmSync(file, { force: true })));
+  }
+  stateFiles.add(filePath);
+}
+
+/**
+ * Read a credential from the config, or from the environment variable it names
+ */
+function resolveSecret(value: string | undefined, envName: string | undefined, label: string): string {
+  if (envName) {
+    const envValue = process.env[envName];
+    if (envValue === undefined) {
+      throw new Error(`Environment variable ${envName} for ${label} is not set`);
+    }
+    return envValue;
+  }
+  if (value === undefined) {
+    throw new Error(`Missing ${label}`);
+  }
+  return value;
+}
+
+/**
+ * Resolve the auth settings for the reference or test environment.
+ * Logins are only performed once per target and base URL.
+ */
+export function prepareAuth(config: VRTConfig, target: AuthTarget, baseURL: string): Promise<AuthContext> {
+  const authConfig = config.auth?.[target];
+  if (!authConfig) {
+    return Promise.resolve({});
+  }
+
+  const key = `${target}:${baseURL}`;
+  if (!prepared.has(key)) {
+    prepared.set(key, createAuthContext(authConfig, target, baseURL));
+  }
+  return prepared.get(key)!;
+}
+
+async function createAuthContext(authConfig: AuthConfig, target: AuthTarget, baseURL: string): Promise<AuthContext> {
+  const context: AuthContext = {};
+  const baseUrlObj = new URL(baseURL);
+
+  if (authConfig.httpCredentials) {
+    const credentials = authConfig.httpCredentials;
+    context.httpCredentials = {
+      username: resolveSecret(credentials.username, credentials.usernameEnv, `${target} basic auth username`),
+      password: resolveSecret(credentials.password, credentials.passwordEnv, `${target} basic auth password`),
+      origin: baseUrlObj.origin,
+    };
+  }
+
+  if (authConfig.headers && Object.keys(authConfig.headers).length > 0) {
+    context.extraHTTPHeaders = { ...authConfig.headers };
+  }
+
+  // Nothing stateful to prepare
+  if (!authConfig.storageState && !authConfig.cookies?.length && !authConfig.login) {
+    return context;
+  }
+
+  let state: StorageState = { cookies: [], origins: [] };
+
+  if (authConfig.storageState) {
+    const storageStatePath = path.resolve(authConfig.storageState);
+    if (!fs.existsSync(storageStatePath)) {
+      throw new Error(`Storage state file not found: ${storageStatePath}`);
+    }
+    state = JSON.parse(fs.readFileSync(storageStatePath, 'utf-8'));
+  }
+
+  for (const cookie of authConfig.cookies || []) {
+    state.cookies.push({
+      domain: baseUrlObj.hostname,
+      path: '/',
+      expires: -1,
+      httpOnly: false,
+      secure: baseUrlObj.protocol === 'https:',
+      sameSite: 'Lax',
+      ...cookie,
+    });
+  }
+
+  if (authConfig.login) {
+    state = await performLogin(authConfig, context, state, target, baseURL);
+  }
+
+  // Keep the resolved state out of playwright-snapshots/, which is cached in CI
+  const workspace = new Workspace();
+  const statePath = path.join(path.basename(AUTH_STATE_DIR), `${target}-state.json`);
+  workspace.writeJSON(statePath, state);
+  context.storageState = workspace.getPath(statePath);
+  removeOnExit(context.storageState);
+
+  return context;
+}
+
+/**
+ * Log in through the login form and return the resulting storage state
+ */
+async function performLogin(
+  authConfig: AuthConfig,
+  context: AuthContext,
+  state: StorageState,
+  target: AuthTarget,
+  baseURL: string
+): Promise<StorageState> {
+  const login = authConfig.login!;
+  const username = resolveSecret(login.username, login.usernameEnv, `${target} login username`);
+  const password = resolveSecret(login.password, login.passwordEnv, `${target} login password`);
+
+  console.log(`   Logging in to ${target} environment...`);
+
+  const browser = await chromium.launch({ headless: true });
+
+  try {
+    const browserContext = await browser.newContext({
+      baseURL,
+      httpCredentials: context.httpCredentials,
+      extraHTTPHeaders: context.extraHTTPHeaders,
+      storageState: state,
+    });
+    const page = await browserContext.newPage();
+
+    await page.goto(login.url, { waitUntil: 'networkidle', timeout: 30000 });
+    await page.locator(login.usernameSelector).fill(username);
+    await page.locator(login.passwordSelector).fill(password);
+
+    if (login.submitSelector) {
+      await page.locator(login.submitSelector).click();
+    } else {
+      await page.locator(login.passwordSelector).press('Enter');
+    }
+
+    if (login.waitForURL) {
+      await page.waitForURL(login.waitForURL, { timeout: 30000 });
+    } else {
+      await page.waitForLoadState('networkidle');
+    }
+
+    if (login.successSelector) {
+      await page.locator(login.successSelector).first().waitFor({ timeout: 30000 });
+    }
+
+    return await browserContext.storageState();
+  } catch (error) {
+    throw new AuthError(`Login to ${target} environment failed: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Build plain HTTP request headers (for sitemap and robots.txt requests)
+ */
+export function authRequestHeaders(auth: AuthContext, url: string): Record<string, string> {
+  const headers: Record<string, string> = { ...auth.extraHTTPHeaders };
+
+  if (auth.httpCredentials) {
+    const token = Buffer.from(`${auth.httpCredentials.username}:${auth.httpCredentials.password}`).toString('base64');
+    headers['Authorization'] = `Basic ${token}`;
+  }
+
+  if (auth.storageState) {
+    const hostname = new URL(url).hostname;
+    const state: StorageState = JSON.parse(fs.readFileSync(auth.storageState, 'utf-8'));
+    const cookies = state.cookies.filter((cookie) => {
+      const domain = String(cookie.domain || '').replace(/^\./, '');
+      return hostname === domain || hostname.endsWith(`.${domain}`);
+    });
+    if (cookies.length > 0) {
+      headers['Cookie'] = cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ');
+    }
+  }
+
+  return headers;
+}
@@ -0,0 +1,359 @@
+#!/usr/bin/env bun
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { buildProjects } from './projects.js';
+import { urlSlug } from '../tests/lib/naming.js';
+import { matchesURL } from '../tests/lib/rules.js';
+import { harPath } from '../tests/lib/har.js';
+import type { VRTConfig } from './config.js';
+
+const MANIFEST_FILE = '.cache-manifest.json';
+const MANIFEST_VERSION = 1;
+
+/**
+ * Baseline state of one URL × project pair
+ */
+export interface CacheEntry {
+  project: string;
+  url: string;
+  /** Snapshot directory of the pair, relative to playwright-snapshots/ */
+  dir: string;
+  /** Hash of all settings that affect the pair's screenshots */
+  hash: string;
+}
+
+export interface CacheManifest {
+  version: number;
+  timestamp: string;
+  /** Hash of the settings that affect URL collection */
+  collection?: string;
+  entries: Record<string, CacheEntry>;
+  approvals?: Array<{ timestamp: string; screenshots: string[] }>;
+}
+
+export interface BaselinePlan {
+  /** Pairs without a baseline or with changed settings */
+  stale: CacheEntry[];
+  /** Pairs whose baseline is up to date */
+  current: CacheEntry[];
+  /** Pairs of URLs or projects no longer in the config */
+  removed: CacheEntry[];
+}
+
+/**
+ * JSON with object keys sorted at every level
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hash(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Compute SHA-256 hash of a config object (including nested keys)
+ */
+export function computeConfigHash(config: any): string {
+  return hash(stableStringify(config));
+}
+
+/**
+ * Hash of the shipped test files: the spec, its helpers and the Playwright config
+ */
+function computeTestFilesHash(): string {
+  const packageDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+  const testsDir = path.join(packageDir, 'tests');
+  const files = [path.join(packageDir, 'playwright.config.js')];
+
+  if (fs.existsSync(testsDir)) {
+    files.push(...fs.readdirSync(testsDir, { recursive: true, encoding: 'utf-8' })
+      .filter((file) => file.endsWith('.js') || file.endsWith('.css'))
+      .sort()
+      .map((file) => path.join(testsDir, file)));
+  }
+
+  return hash(files
+    .filter((file) => fs.existsSync(file))
+    .map((file) => `${path.relative(packageDir, file)}:${hash(fs.readFileSync(file, 'utf-8'))}`)
+    .join('\n'));
+}
+
+/**
+ * Hook modules with the hash of their content, so that edited hooks invalidate the baselines
+ */
+function hookFiles(config: VRTConfig) {
+  return config.hooks?.map((file) => {
+    const filePath = path.resolve(file);
+    return { file, hash: fs.existsSync(filePath) ? hash(fs.readFileSync(filePath, 'utf-8')) : undefined };
+  });
+}
+
+/**
+ * The parts of the reference auth that change how pages render: the user and
+ * the headers and cookies sent. Passwords and login form details are left out.
+ */
+function renderingAuth(config: VRTConfig) {
+  const auth = config.auth?.reference;
+  if (!auth) {
+    return undefined;
+  }
+  const { httpCredentials, login } = auth;
+  return {
+    httpUser: httpCredentials && { username: httpCredentials.username, usernameEnv: httpCredentials.usernameEnv },
+    headers: auth.headers,
+    cookies: auth.cookies,
+    storageState: auth.storageState,
+    login: login && { url: login.url, username: login.username, usernameEnv: login.usernameEnv },
+  };
+}
+
+/**
+ * Settings that decide which URLs are collected
+ */
+function collectionSettings(config: VRTConfig) {
+  return {
+    referenceUrl: config.referenceUrl,
+    sitemapPath: config.sitemapPath,
+    sitemaps: config.sitemaps,
+    sitemapOptions: config.sitemapOptions,
+    urls: config.urls,
+    maxUrls: config.maxUrls,
+    include: config.include,
+    exclude: config.exclude,
+    sampling: config.sampling,
+    crawlOptions: config.crawlOptions,
+    auth: config.auth,
+  };
+}
+
+/**
+ * Settings that change the baseline screenshots. Both the per-pair hashes and
+ * the storage key (computeBaselineHash() in storage.ts) are built from this
+ * list; anything not listed, like the test URL, thresholds or run settings,
+ * only affects the comparison.
+ */
+export function baselineSettings(config: VRTConfig) {
+  return {
+    referenceUrl: config.referenceUrl,
+    auth: renderingAuth(config),
+    viewports: config.viewports || [],
+    browsers: config.browsers,
+    maskColor: config.maskColor,
+    mask: config.mask || [],
+    hide: config.hide || [],
+    overrides: config.overrides || [],
+    determinism: config.determinism,
+    calibration: config.calibration,
+    stabilization: config.stabilization,
+    contentDiff: config.contentDiff,
+    hooks: hookFiles(config),
+    scenarios: config.scenarios || [],
+    components: (config.components || []).map(({ threshold, ...component }) => component),
+  };
+}
+
+type BaselineSettings = ReturnType<typeof baselineSettings>;
+
+/**
+ * Baseline settings narrowed down to one URL (viewports and browsers are
+ * hashed per project)
+ */
+function urlSettings(settings: BaselineSettings, url: string) {
+  const { viewports, browsers, overrides, mask, hide, scenarios, components, ...shared } = settings;
+  const matching = overrides.filter((override) => matchesURL(url, override.match));
+  return {
+    ...shared,
+    url,
+    mask: [...mask, ...matching.flatMap((override) => override.mask || [])],
+    hide: [...hide, ...matching.flatMap((override) => override.hide || [])],
+    scenarios: scenarios.filter((scenario) => matchesURL(url, scenario.match)),
+    components: components.filter((component) => matchesURL(url, component.match)),
+  };
+}
+
+/**
+ * Manifest entries for every URL × project pair of the config
+ */
+export function buildCacheEntries(config: VRTConfig, urls: string[]): CacheEntry[] {
+  const filesHash = computeTestFilesHash();
+  const settings = baselineSettings(config);
+  const viewports = new Map(settings.viewports.map((viewport) => [viewport.name, viewport]));
+  const entries: CacheEntry[] = [];
+
+  for (const url of urls) {
+    const pairSettings = urlSettings(settings, url);
+
+    for (const project of buildProjects(config)) {
+      const viewport = viewports.get(project.viewport);
+      entries.push({
+        project: project.name,
+        url,
+        dir: path.join(project.browser, project.viewport, urlSlug(url)),
+        hash: computeConfigHash({
+          files: filesHash,
+          browser: project.browser,
+          viewport: { width: viewport?.width, height: viewport?.height },
+          ...pairSettings,
+        }),
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Key of a URL × project pair (as passed to the spec via VRT_ONLY)
+ */
+export function cacheKey(entry: Pick<CacheEntry, 'project' | 'url'>): string {
+  return `${entry.project} ${entry.url}`;
+}
+
+/**
+ * Read the cache manifest, if there is a valid one
+ */
+export function readCacheManifest(snapshotDir: string): CacheManifest | undefined {
+  const manifestPath = path.join(snapshotDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  try {
+    const manifest: CacheManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    return manifest.version === MANIFEST_VERSION ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function writeCacheManifest(snapshotDir: string, manifest: CacheManifest): void {
+  manifest.timestamp = new Date().toISOString();
+  fs.mkdirSync(snapshotDir, { recursive: true });
+  fs.writeFileSync(path.join(snapshotDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+function loadOrCreateManifest(snapshotDir: string): CacheManifest {
+  return readCacheManifest(snapshotDir) || { version: MANIFEST_VERSION, timestamp: '', entries: {} };
+}
+
+/**
+ * Check if the collected URLs (urls.json) still match the collection settings
+ */
+export function isCollectionValid(snapshotDir: string, config: VRTConfig): boolean {
+  const manifest = readCacheManifest(snapshotDir);
+  return !!manifest?.collection &&
+    manifest.collection === computeConfigHash(collectionSettings(config)) &&
+    fs.existsSync(path.join(snapshotDir, 'urls.json'));
+}
+
+/**
+ * Record the collection settings after urls.json was written
+ */
+export function saveCollection(snapshotDir: string, config: VRTConfig): void {
+  const manifest = loadOrCreateManifest(snapshotDir);
+  manifest.collection = computeConfigHash(collectionSettings(config));
+  writeCacheManifest(snapshotDir, manifest);
+}
+
+/**
+ * Compare the pairs of the current config and URLs with the manifest.
+ * With `projects`, only these projects are planned (removed pairs are always reported).
+ */
+export function planBaseline(snapshotDir: string, config: VRTConfig, urls: string[], projects?: string[]): BaselinePlan {
+  const manifest = loadOrCreateManifest(snapshotDir);
+  const entries = buildCacheEntries(config, urls);
+  const keys = new Set(entries.map(cacheKey));
+  const plan: BaselinePlan = { stale: [], current: [], removed: [] };
+
+  for (const entry of entries) {
+    if (projects && !projects.includes(entry.project)) {
+      continue;
+    }
+    const stored = manifest.entries[cacheKey(entry)];
+    const valid = stored?.hash === entry.hash && fs.existsSync(path.join(snapshotDir, entry.dir));
+    (valid ? plan.current : plan.stale).push(entry);
+  }
+
+  plan.removed = Object.values(manifest.entries).filter((entry) => !keys.has(cacheKey(entry)));
+
+  return plan;
+}
+
+/**
+ * Record the pairs whose baseline was (re)created
+ */
+export function saveBaselineEntries(snapshotDir: string, entries: CacheEntry[]): void {
+  const manifest = loadOrCreateManifest(snapshotDir);
+  for (const entry of entries) {
+    manifest.entries[cacheKey(entry)] = entry;
+  }
+  writeCacheManifest(snapshotDir, manifest);
+}
+
+/**
+ * Remove the directories above `file` that became empty, up to `snapshotDir`
+ */
+function removeEmptyParents(snapshotDir: string, file: string): void {
+  for (let parent = path.dirname(file); parent.startsWith(snapshotDir + path.sep); parent = path.dirname(parent)) {
+    if (!fs.existsSync(parent) || fs.readdirSync(parent).length > 0) {
+      break;
+    }
+    fs.rmdirSync(parent);
+  }
+}
+
+/**
+ * Delete the baselines and HAR recordings of removed pairs and drop them from the manifest
+ */
+export function pruneBaselines(snapshotDir: string, removed: CacheEntry[]): void {
+  if (removed.length === 0) {
+    return;
+  }
+
+  const manifest = loadOrCreateManifest(snapshotDir);
+  for (const entry of removed) {
+    const dir = path.join(snapshotDir, entry.dir);
+    fs.rmSync(dir, { recursive: true, force: true });
+    removeEmptyParents(snapshotDir, dir);
+
+    // The pair directory is <browser>/<viewport>/<url slug>, like its recording
+    const [browser, viewport] = entry.dir.split(path.sep);
+    const recording = harPath(snapshotDir, browser, viewport, entry.url);
+    fs.rmSync(recording, { force: true });
+    removeEmptyParents(snapshotDir, recording);
+
+    delete manifest.entries[cacheKey(entry)];
+  }
+  writeCacheManifest(snapshotDir, manifest);
+}
+
+/**
+ * Record approved screenshots in the manifest. The approved pairs keep their
+ * hashes, so that the next run still treats the (updated) baseline as valid.
+ */
+export function recordApproval(snapshotDir: string, approved: string[]): void {
+  const manifest = readCacheManifest(snapshotDir);
+  if (!manifest) {
+    return;
+  }
+
+  manifest.approvals = [
+    ...(manifest.approvals || []),
+    { timestamp: new Date().toISOString(), screenshots: approved },
+  ];
+  writeCacheManifest(snapshotDir, manifest);
+}
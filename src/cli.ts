@@ -2,337 +2,522 @@
 
 import * as path from 'path';
 import * as fs from 'fs';
-import { loadConfig, validateConfig, type CLIOptions } from './config.js';
-import { collectURLs } from './collect.js';
-import { runVisualTests, printResults, hasExistingSnapshots } from './runner.js';
-import { createHash } from 'crypto';
+import {
+  loadConfig,
+  validateConfig,
+  ConfigValidationError,
+  DEFAULT_CONFIG,
+  withDefaults,
+  type CLIOptions,
+  type VRTConfig,
+} from './config.js';
+import { readURLs, readURLList } from './collect.js';
+import {
+  createBaseline,
+  runComparison,
+  printResults,
+  hasExistingSnapshots,
+  countSnapshots,
+  mergeReports,
+  BLOB_DIR,
+  type TestResults,
+} from './runner.js';
+import { AUTH_STATE_DIR } from './auth.js';
+import {
+  isCollectionValid,
+  planBaseline,
+  saveBaselineEntries,
+  readCacheManifest,
+} from './cache.js';
+import { resolveProjects } from './projects.js';
+import {
+  runVRT,
+  collectAndSave,
+  loadSavedURLs,
+  planAndPrune,
+  pullFromStorage,
+  pushToStorage,
+  saveCreatedBaselines,
+  SNAPSHOT_DIR,
+  type LoadedConfig,
+  type VRTResult,
+} from './api.js';
+import { BaselineMissingError } from './errors.js';
+import { approveChanges } from './approve.js';
+import { parseArgs, printUsage, UsageError, COMMANDS, type Command } from './args.js';
+import { findNotFound, type ResultsExport } from './results.js';
 
-/**
- * Compute SHA-256 hash of a file
- */
-function computeFileHash(filePath: string): string {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  return createHash('sha256').update(content).digest('hex');
-}
+async function main() {
+  let command: Command;
+  let args: CLIOptions;
 
-/**
- * Compute SHA-256 hash of a config object
- */
-function computeConfigHash(config: any): string {
-  // Create a stable JSON representation (sorted keys)
-  const configStr = JSON.stringify(config, Object.keys(config).sort());
-  return createHash('sha256').update(configStr).digest('hex');
+  try {
+    const parsed = parseArgs(process.argv.slice(2));
+
+    if (parsed.help) {
+      // `playwright-vrt --help` shows the overview, `playwright-vrt <command> --help` the command
+      const explicitCommand = COMMANDS.includes(process.argv[2] as Command);
+      printUsage(explicitCommand ? parsed.command : undefined);
+      process.exit(0);
+    }
+
+    command = parsed.command;
+    args = parsed.options;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}`);
+      console.error(`Run "playwright-vrt ${error.command ? `${error.command} ` : ''}--help" for usage.`);
+      process.exit(2);
+    }
+    throw error;
+  }
+
+  try {
+    switch (command) {
+      case 'clean':
+        clean();
+        process.exit(0);
+      case 'approve':
+        approve(args);
+        process.exit(0);
+      case 'pull':
+        await pull(args);
+        process.exit(0);
+      case 'push':
+        await push(args);
+        process.exit(0);
+      case 'status':
+        await status(args);
+        process.exit(0);
+      case 'validate-config':
+        process.exit(await validate(args));
+      case 'collect':
+        await collect(args);
+        process.exit(0);
+      case 'baseline':
+        await baseline(args);
+        process.exit(0);
+      case 'test':
+        process.exit(await test(args));
+      case 'run':
+        process.exit(await run(args));
+      case 'merge':
+        process.exit(await merge(args));
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}`);
+      printUsage(command);
+      process.exit(2);
+    }
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    if (args.verbose && error instanceof Error) {
+      console.error(error.stack);
+    }
+    process.exit(2);
+  }
 }
 
 /**
- * Check if cache is valid by comparing stored hashes
+ * Load the config file (or defaults) and apply CLI overrides, without validating
  */
-function isCacheValid(snapshotDir: string, config: any): boolean {
-  const hashFile = path.join(snapshotDir, '.cache-hash.json');
+async function resolveRunConfig(args: CLIOptions): Promise<LoadedConfig> {
+  // Either --config or --test is required
+  if (!args.config && !args.test) {
+    throw new UsageError('Either --config or --test is required');
+  }
+
+  let config: VRTConfig;
 
-  if (!fs.existsSync(hashFile)) {
-    return false;
+  if (args.config) {
+    // Load from config file
+    config = await loadConfig(path.resolve(args.config));
+  } else {
+    // Use defaults
+    config = { ...DEFAULT_CONFIG } as VRTConfig;
   }
 
-  try {
-    const stored = JSON.parse(fs.readFileSync(hashFile, 'utf-8'));
-    const packageDir = path.join(__dirname, '..');
-    const testFilePath = path.join(packageDir, 'tests', 'vrt.spec.js');
-
-    const currentHashes = {
-      config: computeConfigHash(config),
-      testFile: fs.existsSync(testFilePath) ? computeFileHash(testFilePath) : '',
-    };
-
-    // Log cache timestamp
-    console.log(`   Cache timestamp: ${stored.timestamp}`);
-
-    return stored.config === currentHashes.config &&
-           stored.testFile === currentHashes.testFile;
-  } catch {
-    return false;
+  // Override with CLI args
+  if (args.test) config.testUrl = args.test;
+  if (args.reference) config.referenceUrl = args.reference;
+
+  let hasExplicitReference = true;
+
+  // If no reference URL set, default to test URL
+  if (!config.referenceUrl && config.testUrl) {
+    config.referenceUrl = config.testUrl;
+    hasExplicitReference = false;
+  }
+
+  if (args.maxUrls) config.maxUrls = args.maxUrls;
+  if (args.workers !== undefined) config.workers = args.workers;
+  if (args.retries !== undefined) config.retries = args.retries;
+
+  if (args.urlsFile) {
+    const listed = readURLList(path.resolve(args.urlsFile));
+    if (listed.length === 0) {
+      throw new Error(`No URLs found in ${args.urlsFile}`);
+    }
+    config.urls = [...(config.urls || []), ...listed];
   }
+
+  return { config, hasExplicitReference };
 }
 
 /**
- * Save current config and test file hashes to cache
+ * Load and validate the run config, printing warnings (e.g. unknown keys)
  */
-function saveCacheHashes(snapshotDir: string, config: any): void {
-  const packageDir = path.join(__dirname, '..');
-  const testFilePath = path.join(packageDir, 'tests', 'vrt.spec.js');
-
-  const hashes = {
-    config: computeConfigHash(config),
-    testFile: fs.existsSync(testFilePath) ? computeFileHash(testFilePath) : '',
-    timestamp: new Date().toISOString(),
-  };
+async function loadRunConfig(args: CLIOptions): Promise<LoadedConfig> {
+  const loaded = await resolveRunConfig(args);
+  printConfigWarnings(validateConfig(loaded.config));
+  return loaded;
+}
 
-  const hashFile = path.join(snapshotDir, '.cache-hash.json');
-  fs.writeFileSync(hashFile, JSON.stringify(hashes, null, 2), 'utf-8');
+function printConfigWarnings(warnings: string[]): void {
+  warnings.forEach((warning) => console.warn(`⚠️ Config: ${warning}`));
 }
 
-async function main() {
-  const args = parseArgs();
+function printHeader(config: VRTConfig, args: CLIOptions): { snapshotDir: string; outputDir: string } {
+  console.log('🚀 Starting Visual Regression Testing');
+  console.log(`   Reference: ${config.referenceUrl}`);
+  console.log(`   Test: ${config.testUrl}`);
 
-  // Either --config or --test is required
-  if (!args.config && !args.test) {
-    console.error('Error: Either --config or --test is required');
-    printUsage();
-    process.exit(2);
+  // Create snapshot directory for URLs and snapshots
+  const snapshotDir = path.resolve(SNAPSHOT_DIR);
+  const outputDir = path.resolve(args.output || 'playwright-report');
+
+  if (!fs.existsSync(snapshotDir)) {
+    fs.mkdirSync(snapshotDir, { recursive: true });
   }
 
-  try {
-    // Load and validate configuration
-    let config;
-    let configPath: string | undefined;
+  if (args.verbose) {
+    console.log(`📁 Snapshots: ${snapshotDir}`);
+    console.log(`📁 Output: ${outputDir}`);
+  }
 
-    if (args.config) {
-      // Load from config file
-      configPath = path.resolve(args.config);
-      config = await loadConfig(configPath);
-    } else {
-      // Use defaults
-      const { DEFAULT_CONFIG } = await import('./config');
-      config = { ...DEFAULT_CONFIG } as any;
+  return { snapshotDir, outputDir };
+}
+
+function printURLs(urls: string[], args: CLIOptions): void {
+  if (args.verbose) {
+    console.log('\n📝 URLs to test:');
+    urls.forEach((url, i) => console.log(`  ${i + 1}. ${url}`));
+  }
+}
+
+/**
+ * Print the results and report locations, and return the exit code
+ */
+function finish(results: TestResults, config: VRTConfig, outputDir: string, snapshotDir: string, args: CLIOptions): number {
+  printResults(results, config);
+
+  const notFound = findNotFound(results.screenshots);
+  if (notFound.length > 0) {
+    const paths = Array.from(new Map(notFound.map((page) => [page.url, page])).values());
+    console.log(`\n⚠️  ${paths.length} page(s) not found on the test side:`);
+    for (const page of paths) {
+      console.log(`   ${page.status} ${page.testPath} (reference: ${new URL(page.url).pathname})`);
+    }
+    if (!config.pathRewrites?.length) {
+      console.log('   (Use pathRewrites to map reference paths to the test environment)');
     }
+  }
 
-    // Override with CLI args
-    if (args.test) config.testUrl = args.test;
-    if (args.reference) config.referenceUrl = args.reference;
+  const blocked = new Set(results.screenshots.flatMap((result) => (result.blockedRequests || []).map((request) => request.url)));
+  if (blocked.size > 0) {
+    console.log(`\n🚫 ${blocked.size} third-party request(s) blocked or stubbed (see vrt-results.json)`);
+  }
 
-    let hasExplicitReference = true;
+  // Report location
+  const reportPath = path.join(outputDir, 'index.html');
+  console.log(`\n📊 Report: ${reportPath}`);
+  console.log(`   Results: ${path.join(outputDir, 'vrt-results.json')}`);
+  console.log(`   JUnit: ${path.join(outputDir, 'junit.xml')}`);
 
-    // If no reference URL set, default to test URL
-    if (!config.referenceUrl && config.testUrl) {
-      config.referenceUrl = config.testUrl;
-      hasExplicitReference = false;
-    }
+  if (args.verbose) {
+    console.log(`📁 Snapshots: ${snapshotDir}`);
+  }
 
-    if (args.maxUrls) config.maxUrls = args.maxUrls;
+  return results.failed > 0 ? 1 : 0;
+}
 
-    validateConfig(config);
+/**
+ * `collect`: write urls.json only
+ */
+async function collect(args: CLIOptions): Promise<void> {
+  const loaded = await loadRunConfig(args);
+  const { snapshotDir } = printHeader(loaded.config, args);
 
-    console.log('🚀 Starting Visual Regression Testing');
-    console.log(`   Reference: ${config.referenceUrl}`);
-    console.log(`   Test: ${config.testUrl}`);
+  console.log('\n🔍 Collecting URLs...');
+  const { urls } = await collectAndSave(loaded, snapshotDir);
+  printURLs(urls, args);
 
-    // Create snapshot directory for URLs and snapshots
-    const snapshotDir = path.resolve('playwright-snapshots');
-    const outputDir = path.resolve(args.output || 'playwright-report');
+  console.log(`\n✓ URLs saved to ${path.join(snapshotDir, 'urls.json')}`);
+}
 
-    if (!fs.existsSync(snapshotDir)) {
-      fs.mkdirSync(snapshotDir, { recursive: true });
-    }
+/**
+ * `baseline`: take reference screenshots only
+ */
+async function baseline(args: CLIOptions): Promise<void> {
+  const loaded = await loadRunConfig(args);
+  const { snapshotDir, outputDir } = printHeader(loaded.config, args);
+
+  const urls = loadSavedURLs(snapshotDir);
+  console.log(`\n📋 Using ${urls.length} collected URLs`);
+  printURLs(urls, args);
+
+  const plan = planAndPrune(loaded.config, urls, snapshotDir, args.project);
+
+  console.log('\n📸 Creating baseline snapshots...');
+  await createBaseline({
+    config: loaded.config,
+    outputDir,
+    verbose: args.verbose,
+    project: args.project,
+    hasExplicitReference: loaded.hasExplicitReference,
+    headed: args.headed,
+    shard: args.shard,
+  });
+
+  const entries = [...plan.stale, ...plan.current];
+  if (args.shard) {
+    // Each shard records and keeps its own part; push from a job with the whole baseline
+    saveCreatedBaselines(snapshotDir, entries);
+  } else {
+    saveBaselineEntries(snapshotDir, entries);
+    await pushToStorage(loaded.config, snapshotDir);
+  }
+}
 
-    if (args.verbose) {
-      console.log(`📁 Snapshots: ${snapshotDir}`);
-      console.log(`📁 Output: ${outputDir}`);
-    }
+/**
+ * `test`: compare against the existing baseline only
+ */
+async function test(args: CLIOptions): Promise<number> {
+  const loaded = await loadRunConfig(args);
+  const { snapshotDir, outputDir } = printHeader(loaded.config, args);
+
+  await pullFromStorage(loaded.config, snapshotDir);
+
+  const urls = loadSavedURLs(snapshotDir);
+  if (!hasExistingSnapshots(snapshotDir)) {
+    throw new BaselineMissingError('No baseline snapshots found. Run "playwright-vrt baseline" first.');
+  }
 
-    // Check if URLs already exist (unless --update-baseline)
-    const urlsPath = path.join(snapshotDir, 'urls.json');
-    let urls: string[] = [];
+  const projects = args.project ? resolveProjects(loaded.config, args.project) : undefined;
+  const { stale } = planBaseline(snapshotDir, loaded.config, urls, projects);
+  if (stale.length > 0) {
+    console.warn(`⚠️ ${stale.length} baseline(s) missing or created with different settings or test files`);
+  }
+
+  console.log(`\n📋 Using ${urls.length} collected URLs`);
+  printURLs(urls, args);
+
+  const results = await runComparison({
+    config: loaded.config,
+    outputDir,
+    verbose: args.verbose,
+    project: args.project,
+    hasExplicitReference: loaded.hasExplicitReference,
+    headed: args.headed,
+    shard: args.shard,
+  });
+
+  if (args.shard) {
+    console.log(`\n🧩 Shard ${args.shard}: merge the reports of all shards with "playwright-vrt merge"`);
+  }
+
+  return finish(results, loaded.config, outputDir, snapshotDir, args);
+}
 
-    // Check cache validity based on config object and test file hashes
-    const cacheValid = isCacheValid(snapshotDir, config);
-    const shouldRegenerate = args.updateBaseline || !cacheValid;
+/**
+ * `run`: all phases, reusing cached URLs and baselines where valid (see runVRT())
+ */
+async function run(args: CLIOptions): Promise<number> {
+  const { config, hasExplicitReference } = await resolveRunConfig(args);
 
-    if (!hasExplicitReference && !cacheValid && !args.updateBaseline) {
-      console.error('\n❌ Error: No baseline snapshots found and no reference URL provided.');
+  let result: VRTResult;
+  try {
+    // Without an explicit reference, runVRT() falls back to the test URL itself
+    result = await runVRT(hasExplicitReference ? config : { ...config, referenceUrl: undefined }, {
+      outputDir: args.output,
+      project: args.project,
+      updateBaseline: args.updateBaseline,
+      headed: args.headed,
+      shard: args.shard,
+      verbose: args.verbose,
+      logger: console,
+      playwrightOutput: 'inherit',
+    });
+  } catch (error) {
+    if (error instanceof BaselineMissingError) {
+      console.error(`\n❌ Error: ${error.message}.`);
       console.error('   Either:');
       console.error('   1. Provide --reference <url> to create baseline from a reference system');
       console.error('   2. Use --update-baseline to create baseline from test URL');
       console.error('   3. Add referenceUrl to your config file\n');
-      process.exit(2);
+      return 2;
     }
+    throw error;
+  }
 
-    if (fs.existsSync(urlsPath) && !shouldRegenerate) {
-      // Load existing URLs
-      console.log('\n📋 Using cached URLs from previous run');
-      urls = JSON.parse(fs.readFileSync(urlsPath, 'utf-8'));
-      console.log(`✓ Loaded ${urls.length} URLs from cache`);
+  return finish(result, config, result.outputDir, path.resolve(SNAPSHOT_DIR), args);
+}
 
-      if (args.verbose) {
-        console.log('   (Use --update-baseline to regenerate URLs)');
-      }
-    } else {
-      // Collect URLs from sitemap/crawler
-      if (args.updateBaseline) {
-        console.log('\n🔄 Updating baseline (regenerating URLs)...');
-      } else if (!cacheValid && fs.existsSync(urlsPath)) {
-        console.log('\n🔄 Config or test file changed, regenerating URLs...');
-      } else {
-        console.log('\n🔍 Collecting URLs (first run)...');
-      }
+/**
+ * `merge`: combine the blob reports of sharded runs into one report and results export
+ */
+async function merge(args: CLIOptions): Promise<number> {
+  const config = args.config ? await loadConfig(path.resolve(args.config)) : withDefaults({});
+  const blobDir = path.resolve(args.blobDir || BLOB_DIR);
+  const outputDir = path.resolve(args.output || 'playwright-report');
+
+  const blobs = fs.existsSync(blobDir) ? fs.readdirSync(blobDir).filter((file) => file.endsWith('.zip')) : [];
+  if (blobs.length === 0) {
+    throw new Error(`No shard reports found in ${blobDir}. Download the ${BLOB_DIR}/ directory of every shard there first.`);
+  }
 
-      console.log(`   Source: ${config.referenceUrl}${config.sitemapPath || '/sitemap.xml'}`);
-      const urlResult = await collectURLs(config);
+  console.log(`🧩 Merging ${blobs.length} shard report(s) from ${blobDir}`);
+  const results = await mergeReports(blobDir, outputDir, config, args.verbose);
 
-      console.log(`✓ Found ${urlResult.total} URLs, filtered to ${urlResult.filtered}, using top ${urlResult.urls.length}`);
-      console.log(`  Source: ${urlResult.source}`);
+  return finish(results, config, outputDir, path.resolve(SNAPSHOT_DIR), args);
+}
 
-      urls = urlResult.urls;
+/**
+ * `approve`: accept the actual screenshots of the last run into the baseline
+ */
+function approve(args: CLIOptions): void {
+  const options = {
+    outputDir: path.resolve(args.output || 'playwright-report'),
+    snapshotDir: path.resolve(SNAPSHOT_DIR),
+    urls: args.urls,
+    projects: args.project?.split(',').map((name) => name.trim()).filter(Boolean),
+    ids: args.ids,
+    dryRun: args.dryRun,
+  };
 
-      // Save URLs to snapshot directory (co-located with snapshots for easy caching)
-      fs.writeFileSync(urlsPath, JSON.stringify(urls, null, 2), 'utf-8');
+  const { approved, skipped } = approveChanges(options);
 
-      // Save cache hashes based on final config object
-      saveCacheHashes(snapshotDir, config);
-    }
+  console.log(options.dryRun ? '🔍 Screenshots that would be approved:' : '✅ Approved screenshots:');
+  approved.forEach((entry) => console.log(`   ${entry.project}: ${entry.url} (${entry.name})`));
 
-    if (urls.length === 0) {
-      throw new Error('No URLs found to test');
-    }
+  if (skipped.length > 0) {
+    console.warn(`\n⚠️ ${skipped.length} screenshot(s) skipped, actual image no longer exists in playwright-tmp/`);
+  }
 
-    if (args.verbose) {
-      console.log('\n📝 URLs to test:');
-      urls.forEach((url, i) => console.log(`  ${i + 1}. ${url}`));
-    }
+  console.log(`\n✓ ${approved.length} screenshot(s) ${options.dryRun ? 'to approve' : 'copied to playwright-snapshots/'}`);
+}
 
-    // Run visual regression tests using shipped Playwright config and tests
-    const results = await runVisualTests({
-      config,
-      outputDir,
-      verbose: args.verbose,
-      project: args.project,
-      updateBaseline: shouldRegenerate,
-      hasExplicitReference,
-      headed: args.headed,
-    });
+/**
+ * `pull`: download the stored baseline
+ */
+async function pull(args: CLIOptions): Promise<void> {
+  const { config } = await loadRunConfig(args);
+  if (!config.storage) {
+    throw new Error('No "storage" configured');
+  }
 
-    // Print results
-    printResults(results, config);
+  if (!(await pullFromStorage(config, path.resolve(SNAPSHOT_DIR)))) {
+    throw new Error('No stored baseline found');
+  }
+}
+
+/**
+ * `push`: upload the local baseline
+ */
+async function push(args: CLIOptions): Promise<void> {
+  const { config } = await loadRunConfig(args);
+  if (!config.storage) {
+    throw new Error('No "storage" configured');
+  }
 
-    // Report location
-    const reportPath = path.join(outputDir, 'index.html');
-    console.log(`\n📊 Report: ${reportPath}`);
+  await pushToStorage(config, path.resolve(SNAPSHOT_DIR));
+}
 
-    if (args.verbose) {
-      console.log(`📁 Snapshots: ${snapshotDir}`);
-    }
+/**
+ * `status`: show cached URLs, baseline and last results
+ */
+async function status(args: CLIOptions): Promise<void> {
+  const snapshotDir = path.resolve(SNAPSHOT_DIR);
+  const outputDir = path.resolve(args.output || 'playwright-report');
+  const urlsPath = path.join(snapshotDir, 'urls.json');
+  const manifest = readCacheManifest(snapshotDir);
+  let urls: string[] = [];
+
+  console.log('📋 Playwright VRT status');
+
+  if (fs.existsSync(urlsPath)) {
+    urls = readURLs(urlsPath);
+    console.log(`\n   URLs: ${urls.length} (${urlsPath})`);
+    printURLs(urls, args);
+  } else {
+    console.log('\n   URLs: not collected yet');
+  }
 
-    // Exit with appropriate code
-    process.exit(results.failed > 0 ? 1 : 0);
-  } catch (error) {
-    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
-    if (args.verbose && error instanceof Error) {
-      console.error(error.stack);
+  console.log(`   Baseline: ${countSnapshots(snapshotDir)} snapshot(s)`);
+
+  if (manifest) {
+    console.log(`   Cache timestamp: ${manifest.timestamp}`);
+    if (args.config) {
+      const { config } = await loadRunConfig(args);
+      const plan = planBaseline(snapshotDir, config, urls);
+      console.log(`   URLs cache: ${isCollectionValid(snapshotDir, config) ? 'valid' : 'outdated (collection settings changed)'}`);
+      console.log(`   Baselines: ${plan.current.length} up to date, ${plan.stale.length} outdated or missing, ${plan.removed.length} to prune`);
+      if (args.verbose) {
+        plan.stale.forEach((entry) => console.log(`     outdated: ${entry.project}: ${entry.url}`));
+      }
+    } else {
+      console.log(`   Baselines: ${Object.keys(manifest.entries).length} URL/project pair(s) (pass --config to check validity)`);
     }
-    process.exit(2);
+  } else {
+    console.log('   Cache: none');
+  }
+
+  const resultsPath = path.join(outputDir, 'vrt-results.json');
+  if (fs.existsSync(resultsPath)) {
+    const report: ResultsExport = JSON.parse(fs.readFileSync(resultsPath, 'utf-8'));
+    const { passed, failed, total } = report.summary;
+    console.log(`\n   Last run (${report.generatedAt}): ${passed}/${total} passed, ${failed} failed`);
+  } else {
+    console.log('\n   Last run: no results');
   }
 }
 
-function parseArgs(): CLIOptions {
-  const args: CLIOptions = {
-    config: '',
-  };
+/**
+ * `validate-config`: check the config without running anything
+ */
+async function validate(args: CLIOptions): Promise<number> {
+  const { config } = await resolveRunConfig(args);
+  const source = args.config ? path.resolve(args.config) : 'command line options';
 
-  for (let i = 2; i < process.argv.length; i++) {
-    const arg = process.argv[i];
-    const next = process.argv[i + 1];
-
-    switch (arg) {
-      case '--reference':
-        args.reference = next;
-        i++;
-        break;
-      case '--test':
-        args.test = next;
-        i++;
-        break;
-      case '--config':
-        args.config = next;
-        i++;
-        break;
-      case '--output':
-        args.output = next;
-        i++;
-        break;
-      case '--max-urls':
-        args.maxUrls = parseInt(next, 10);
-        i++;
-        break;
-      case '--project':
-        args.project = next;
-        i++;
-        break;
-      case '--verbose':
-        args.verbose = true;
-        break;
-      case '--headed':
-        args.headed = true;
-        break;
-      case '--update-baseline':
-        args.updateBaseline = true;
-        break;
-      case '--clean':
-        // Clean snapshots and reports
-        console.log('🗑️  Cleaning...');
-        ['playwright-snapshots', 'playwright-report', 'playwright-tmp'].forEach(dir => {
-          const fullPath = path.resolve(dir);
-          if (fs.existsSync(fullPath)) {
-            fs.rmSync(fullPath, { recursive: true, force: true });
-            console.log(`   Removed: ${dir}/`);
-          }
-        });
-        console.log('✓ Clean complete');
-        process.exit(0);
-        break;
-      case '--help':
-      case '-h':
-        printUsage();
-        process.exit(0);
-        break;
+  try {
+    const warnings = validateConfig(config);
+    printConfigWarnings(warnings);
+    console.log(`✓ Config is valid: ${source}${warnings.length > 0 ? ` (${warnings.length} warning(s))` : ''}`);
+    return 0;
+  } catch (error) {
+    if (error instanceof ConfigValidationError) {
+      printConfigWarnings(error.warnings.map((issue) => `${issue.path}: ${issue.message}`));
+      console.error(`❌ Config is invalid: ${source}`);
+      error.issues.forEach((issue) => console.error(`   ${issue.path}: ${issue.message}`));
+      return 1;
     }
+    throw error;
   }
-
-  return args;
 }
 
-function printUsage(): void {
-  console.log(`
-Usage: playwright-vrt run [options]
-
-Required (one of):
-  --test <url>           Test URL
-  --config <path>        Path to config file with testUrl/referenceUrl
-
-Optional:
-  --reference <url>      Reference URL (defaults to --test URL or config)
-  --output <dir>         Output directory (default: ./playwright-report)
-  --max-urls <number>    Override config maxUrls
-  --project <name>       Playwright project to run (default: all)
-  --verbose              Detailed logging
-  --headed               Run browser in headed mode (visible)
-  --update-baseline      Force regenerate URLs and baseline snapshots
-  --clean                Clean playwright-snapshots/ and playwright-report/
-  --help, -h             Show this help message
-
-Examples:
-  # Minimal - compare staging against itself (first run creates baseline)
-  bunx playwright-vrt run --test https://staging.example.com
-
-  # Compare staging against production
-  bunx playwright-vrt run \\
-    --reference https://production.com \\
-    --test https://staging.com
-
-  # With config file only (contains testUrl and referenceUrl)
-  bunx playwright-vrt run --config ./playwright-vrt.config.json
-
-  # With config file + URL override
-  bunx playwright-vrt run \\
-    --test https://preview-123.staging.com \\
-    --config ./playwright-vrt.config.json
-
-Directories:
-  playwright-snapshots/  Baseline snapshots and URLs (cache this!)
-  playwright-report/     HTML test report
-  playwright-tmp/        Temporary test artifacts (cleared on each run)
-
-  Clean with: playwright-vrt run --clean
-  Or manually: rm -rf playwright-snapshots playwright-report playwright-tmp
-`);
+/**
+ * `clean`: remove snapshots and reports
+ */
+function clean(): void {
+  console.log('🗑️  Cleaning...');
+  [SNAPSHOT_DIR, 'playwright-report', 'playwright-tmp', BLOB_DIR, AUTH_STATE_DIR].forEach(dir => {
+    const fullPath = path.resolve(dir);
+    if (fs.existsSync(fullPath)) {
+      fs.rmSync(fullPath, { recursive: true, force: true });
+      console.log(`   Removed: ${dir}/`);
+    }
+  });
+  console.log('✓ Clean complete');
 }
 
 // Run the CLI
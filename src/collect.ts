@@ -1,137 +1,381 @@
 #!/usr/bin/env bun
 
-import Sitemapper from 'sitemapper';
+import * as fs from 'fs';
 import micromatch from 'micromatch';
 import { chromium } from 'playwright';
+import { fetchRobotsRules } from './robots.js';
+import { authRequestHeaders, type AuthContext } from './auth.js';
+import { sampleURLs, type SamplingRecord, type URLCandidate } from './sampling.js';
+import { fetchSitemap, expandAlternates, type SitemapEntry } from './sitemap.js';
 import type { VRTConfig } from './config.js';
 
+export type URLSource = 'sitemap' | 'crawl' | 'list' | 'mixed';
+
 export interface URLCollectionResult {
   urls: string[];
-  source: 'sitemap' | 'crawl';
+  source: URLSource;
   total: number;
   filtered: number;
+  sampling: SamplingRecord;
 }
 
-export async function collectURLs(config: VRTConfig): Promise<URLCollectionResult> {
-  let urls: string[] = [];
-  let source: 'sitemap' | 'crawl' = 'sitemap';
+/**
+ * Contents of playwright-snapshots/urls.json
+ */
+export interface URLsFile extends URLCollectionResult {
+  generatedAt: string;
+}
 
-  // Try sitemap first
-  try {
-    urls = await collectFromSitemap(config.referenceUrl, config.sitemapPath || '/sitemap.xml');
-  } catch (error) {
-    console.warn('⚠️ Sitemap fetch failed, falling back to crawler');
-    // Fallback to crawling
-    urls = await crawlWebsite(config.referenceUrl, config.crawlOptions);
-    source = 'crawl';
+export async function collectURLs(config: VRTConfig, auth: AuthContext = {}): Promise<URLCollectionResult> {
+  const listed = resolveListedURLs(config.urls || [], config.referenceUrl);
+  let candidates: URLCandidate[] = [];
+  let source: URLSource = 'list';
+
+  // Sitemaps are skipped for explicit URL lists, unless `sitemaps` are configured as well
+  const sitemaps = config.sitemaps || (listed.length === 0 ? [config.sitemapPath || '/sitemap.xml'] : []);
+
+  if (sitemaps.length > 0) {
+    try {
+      candidates = await collectFromSitemaps(config, sitemaps, auth);
+      source = listed.length > 0 ? 'mixed' : 'sitemap';
+    } catch (error) {
+      if (listed.length > 0) {
+        console.warn(`⚠️ Sitemap fetch failed (${error instanceof Error ? error.message : error}), using the URL list only`);
+      } else {
+        console.warn('⚠️ Sitemap fetch failed, falling back to crawler');
+        // Fallback to crawling
+        const urls = await crawlWebsite(config.referenceUrl, config.crawlOptions, {
+          include: config.include || [],
+          exclude: config.exclude || [],
+        }, auth);
+        candidates = urls.map((url) => ({ url }));
+        source = 'crawl';
+      }
+    }
   }
 
-  const totalUrls = urls.length;
+  const totalUrls = candidates.length + listed.length;
 
   // Filter URLs
-  urls = filterURLs(urls, config.referenceUrl, config.include || ['*'], config.exclude || []);
+  const allowed = new Set(filterURLs(candidates.map((c) => c.url), config.referenceUrl, config.include || ['*'], config.exclude || []));
 
   // Remove duplicate URLs but keep order
-  urls = Array.from(new Set(urls));
+  const seen = new Set<string>();
+  candidates = candidates.filter((candidate) => {
+    if (!allowed.has(candidate.url) || seen.has(candidate.url)) {
+      return false;
+    }
+    seen.add(candidate.url);
+    return true;
+  });
 
-  // Limit to maxUrls
-  const maxUrls = config.maxUrls || 25;
-  const filteredCount = urls.length;
-  urls = urls.slice(0, maxUrls);
+  // Pick up to maxUrls with the configured sampling strategy; listed URLs are always kept
+  const { urls, sampling } = sampleURLs(candidates, config.referenceUrl, config.sampling, config.maxUrls || 25, listed);
 
   return {
     urls,
     source,
     total: totalUrls,
-    filtered: filteredCount,
+    filtered: candidates.length + listed.length,
+    sampling,
   };
 }
 
-async function collectFromSitemap(baseUrl: string, sitemapPath: string): Promise<string[]> {
-  const sitemapUrl = new URL(sitemapPath, baseUrl).toString();
-
-  const sitemap = new Sitemapper({
-    url: sitemapUrl,
-    timeout: 15000,
+/**
+ * Resolve listed paths and URLs against the reference URL.
+ * URLs of other hosts (e.g. copied from production) are rebased onto it.
+ */
+function resolveListedURLs(entries: string[], baseUrl: string): string[] {
+  const base = new URL(baseUrl);
+  const urls = entries.map((entry) => {
+    const url = new URL(entry, baseUrl);
+    return url.host === base.host ? url.toString() : new URL(url.pathname + url.search, baseUrl).toString();
   });
+  return Array.from(new Set(urls));
+}
+
+async function collectFromSitemaps(config: VRTConfig, sitemaps: string[], auth: AuthContext): Promise<URLCandidate[]> {
+  const entries: SitemapEntry[] = [];
+  const errors: string[] = [];
+
+  for (const sitemapPath of sitemaps) {
+    const sitemapUrl = new URL(sitemapPath, config.referenceUrl).toString();
+    try {
+      entries.push(...await fetchSitemap(sitemapUrl, { headers: authRequestHeaders(auth, sitemapUrl) }));
+    } catch (error) {
+      errors.push(`${sitemapUrl}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error(errors.length > 0 ? errors.join(', ') : 'No URLs found in sitemap');
+  }
+  errors.forEach((error) => console.warn(`⚠️ Sitemap failed: ${error}`));
+
+  return expandAlternates(entries, config.sitemapOptions);
+}
 
-  const { sites } = await sitemap.fetch();
+/**
+ * Read a list of URLs or paths from a file:
+ * - `.json`: array of strings, array of objects with `url`/`loc`/`path`, or `{ "urls": [...] }`
+ * - `.csv`: the `url`/`loc`/`path` column, or the first column
+ * - other: one URL or path per line, `#` starts a comment
+ */
+export function readURLList(filePath: string): string[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  const extension = filePath.toLowerCase().split('.').pop();
+  let entries: string[];
+
+  if (extension === 'json') {
+    const data = JSON.parse(content);
+    const items: unknown[] = Array.isArray(data) ? data : data.urls;
+    if (!Array.isArray(items)) {
+      throw new Error(`${filePath}: expected an array of URLs or { "urls": [...] }`);
+    }
+    entries = items.map((item: any) => (typeof item === 'string' ? item : item?.url ?? item?.loc ?? item?.path));
+  } else if (extension === 'csv') {
+    const rows = content.split(/\r?\n/).filter((line) => line.trim()).map(parseCSVRow);
+    const header = rows[0]?.map((cell) => cell.toLowerCase()) || [];
+    const column = header.findIndex((cell) => ['url', 'loc', 'path'].includes(cell));
+    entries = (column >= 0 ? rows.slice(1) : rows).map((row) => row[Math.max(column, 0)]);
+  } else {
+    entries = content.split(/\r?\n/).map((line) => line.replace(/#.*$/, ''));
+  }
 
-  if (!sites || sites.length === 0) {
-    throw new Error('No URLs found in sitemap');
+  return entries
+    .map((entry) => (typeof entry === 'string' ? entry.trim() : ''))
+    .filter(Boolean);
+}
+
+function parseCSVRow(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
   }
+  cells.push(cell.trim());
+
+  return cells;
+}
+
+const NON_HTML_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|docx?|xlsx?|pptx?|odt|ods|csv|txt|xml|json|rss|atom|jpe?g|png|gif|webp|avif|svg|ico|bmp|tiff?|mp3|mp4|m4a|mov|avi|webm|ogg|wav|woff2?|ttf|eot|otf|css|js|mjs|map|exe|dmg|apk|ics)$/i;
+
+interface CrawlFilter {
+  include: string[];
+  exclude: string[];
+}
 
-  return sites;
+interface ExtractedLinks {
+  links: string[];
+  nofollow: boolean;
 }
 
 async function crawlWebsite(
   baseUrl: string,
-  options?: VRTConfig['crawlOptions']
+  options: VRTConfig['crawlOptions'] = {},
+  filter: CrawlFilter = { include: [], exclude: [] },
+  auth: AuthContext = {}
 ): Promise<string[]> {
-  const urls = new Set<string>();
+  const maxDepth = options.maxDepth ?? 1;
+  const maxPages = options.maxPages ?? 200;
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+
+  console.log(`   Using crawler (depth ${maxDepth}, up to ${maxPages} pages)...`);
 
-  console.log('   Using crawler (homepage links only)...');
+  const baseUrlObj = new URL(baseUrl);
+  const robots = options.respectRobotsTxt === false
+    ? null
+    : await fetchRobotsRules(baseUrl, authRequestHeaders(auth, baseUrl));
+
+  const collected: string[] = [];
+  const seen = new Set<string>();
 
   const browser = await chromium.launch({ headless: true });
-  const page = await browser.newPage();
+  const context = await browser.newContext({
+    httpCredentials: auth.httpCredentials,
+    extraHTTPHeaders: auth.extraHTTPHeaders,
+    storageState: auth.storageState,
+  });
 
-  const baseUrlObj = new URL(baseUrl);
+  /**
+   * Decide whether a discovered link is worth queueing at all.
+   * Excluded paths are neither collected nor followed.
+   */
+  const shouldVisit = (url: string): boolean => {
+    const urlObj = new URL(url);
+    if (urlObj.hostname !== baseUrlObj.hostname) {
+      return false;
+    }
+    if (NON_HTML_EXTENSIONS.test(urlObj.pathname)) {
+      return false;
+    }
+    if (filter.exclude.length > 0 && micromatch.isMatch(urlObj.pathname + urlObj.search, filter.exclude, { bash: true })) {
+      return false;
+    }
+    if (robots && !robots.isAllowed(url)) {
+      return false;
+    }
+    return true;
+  };
+
+  /**
+   * Pages that do not match the include patterns are still followed,
+   * since they may link to pages that do.
+   */
+  const shouldCollect = (url: string): boolean => {
+    if (filter.include.length === 0) {
+      return true;
+    }
+    const urlObj = new URL(url);
+    return micromatch.isMatch(urlObj.pathname + urlObj.search, filter.include, { bash: true });
+  };
+
+  const visit = async (url: string, depth: number): Promise<string[]> => {
+    const page = await context.newPage();
+
+    try {
+      const response = await page.goto(url, {
+        waitUntil: 'networkidle',
+        timeout: 30000,
+      });
+
+      // Skip non-HTML responses and error pages
+      const contentType = response?.headers()['content-type'] || '';
+      if (!response || response.status() >= 400 || !contentType.includes('text/html')) {
+        return [];
+      }
+
+      // Redirects may land on another host or an already seen page
+      const finalUrl = normalizeCrawlURL(page.url(), baseUrl, options);
+      if (finalUrl !== url && (seen.has(finalUrl) || !shouldVisit(finalUrl))) {
+        return [];
+      }
+      seen.add(finalUrl);
+
+      if (collected.length < maxPages && shouldCollect(finalUrl)) {
+        collected.push(finalUrl);
+      }
+
+      if (depth >= maxDepth) {
+        return [];
+      }
+
+      const respectNofollow = options.respectNofollow !== false;
+      const { links, nofollow } = await page.evaluate((skipNofollowLinks) => {
+        // @ts-ignore - runs in browser context
+        const robotsMeta = document.querySelector('meta[name="robots" i]');
+        const metaNofollow = /nofollow/i.test(robotsMeta?.getAttribute('content') || '');
+        // @ts-ignore - runs in browser context
+        const anchors = Array.from(document.querySelectorAll('a[href]'));
+        return {
+          nofollow: metaNofollow,
+          links: anchors
+            // @ts-ignore - runs in browser context
+            .filter(a => !skipNofollowLinks || !/\bnofollow\b/i.test(a.getAttribute('rel') || ''))
+            // @ts-ignore - runs in browser context
+            .map(a => (a as HTMLAnchorElement).href),
+        };
+      }, respectNofollow) as ExtractedLinks;
+
+      if (nofollow && respectNofollow) {
+        return [];
+      }
+
+      return links;
+    } catch (error) {
+      console.warn(`   ⚠️ Crawler could not load ${url}: ${error instanceof Error ? error.message : error}`);
+      return [];
+    } finally {
+      await page.close();
+    }
+  };
 
   try {
-    // Visit the homepage
-    await page.goto(baseUrl, {
-      waitUntil: 'networkidle',
-      timeout: 30000
-    });
-
-    // Add the homepage itself, by adding the current page URL
-    urls.add(page.url());
-
-    // Extract all links from the page
-    const links = await page.evaluate(() => {
-      // @ts-ignore - runs in browser context
-      const anchors = Array.from(document.querySelectorAll('a[href]'));
-      // @ts-ignore - runs in browser context
-      return anchors.map(a => (a as HTMLAnchorElement).href);
-    });
-
-    // Filter links to same domain and add to set
-    for (const link of links) {
-      try {
-        const linkUrl = new URL(link);
-
-        // Only include links from the same domain
-        if (linkUrl.hostname === baseUrlObj.hostname) {
-          // Normalize URL (remove hash)
-          linkUrl.hash = '';
-          const normalizedUrl = linkUrl.toString();
-
-          if (options?.removeTrailingSlash) {
-            // Remove trailing slash for consistency (except for root)
-            const cleanUrl = normalizedUrl.endsWith('/') && normalizedUrl !== baseUrl + '/'
-              ? normalizedUrl.slice(0, -1)
-              : normalizedUrl;
-            urls.add(cleanUrl);
-          } else {
-            urls.add(normalizedUrl);
+    // Breadth-first: each level is fully visited before the next one
+    let level = [normalizeCrawlURL(baseUrl, baseUrl, options)];
+    seen.add(level[0]);
+
+    for (let depth = 0; depth <= maxDepth && level.length > 0; depth++) {
+      const nextLevel: string[] = [];
+      const queue = [...level];
+
+      const worker = async () => {
+        while (queue.length > 0 && collected.length < maxPages) {
+          const url = queue.shift()!;
+          const links = await visit(url, depth);
+
+          for (const link of links) {
+            let normalized: string;
+            try {
+              normalized = normalizeCrawlURL(link, baseUrl, options);
+            } catch {
+              // Skip invalid URLs
+              continue;
+            }
+            if (!seen.has(normalized) && shouldVisit(normalized)) {
+              seen.add(normalized);
+              nextLevel.push(normalized);
+            }
           }
         }
-      } catch {
-        // Skip invalid URLs
+      };
+
+      await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+
+      if (collected.length >= maxPages) {
+        console.log(`   Reached page limit (${maxPages})`);
+        break;
       }
-    }
 
-    console.log(`   Found ${urls.size} URLs from homepage`);
+      level = nextLevel;
+    }
 
+    console.log(`   Found ${collected.length} URLs by crawling`);
   } catch (error) {
     console.error('   Crawler error:', error instanceof Error ? error.message : error);
-    // At minimum, return the base URL
-    urls.add(baseUrl);
   } finally {
     await browser.close();
   }
 
-  return Array.from(urls);
+  // At minimum, return the base URL
+  if (collected.length === 0) {
+    collected.push(baseUrl);
+  }
+
+  return collected;
+}
+
+/**
+ * Normalize a crawled URL: drop the hash and optionally the trailing slash (except for root)
+ */
+function normalizeCrawlURL(url: string, baseUrl: string, options: VRTConfig['crawlOptions'] = {}): string {
+  const urlObj = new URL(url, baseUrl);
+  urlObj.hash = '';
+
+  if (options.removeTrailingSlash && urlObj.pathname !== '/' && urlObj.pathname.endsWith('/')) {
+    urlObj.pathname = urlObj.pathname.slice(0, -1);
+  }
+
+  return urlObj.toString();
 }
 
 function filterURLs(urls: string[], baseUrl: string, include: string[], exclude: string[]): string[] {
@@ -165,7 +409,18 @@ function filterURLs(urls: string[], baseUrl: string, include: string[], exclude:
   });
 }
 
-export function saveURLs(urls: string[], filepath: string): void {
-  const content = JSON.stringify(urls, null, 2);
-  Bun.write(filepath, content);
+/**
+ * Write the collected URLs and how they were sampled (urls.json)
+ */
+export function saveURLs(result: URLCollectionResult, filepath: string): void {
+  const content: URLsFile = { generatedAt: new Date().toISOString(), ...result };
+  fs.writeFileSync(filepath, JSON.stringify(content, null, 2), 'utf-8');
+}
+
+/**
+ * Read the URLs of urls.json (also the plain URL list written by older versions)
+ */
+export function readURLs(filepath: string): string[] {
+  const content = JSON.parse(fs.readFileSync(filepath, 'utf-8'));
+  return Array.isArray(content) ? content : content.urls || [];
 }
@@ -1,25 +1,288 @@
 #!/usr/bin/env bun
 
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import YAML from 'yaml';
+import type { Page } from '@playwright/test';
+import { CONFIG_SCHEMA, validateSchema, type SchemaIssue } from './schema.js';
+import { ConfigValidationError } from './errors.js';
+
+export { ConfigValidationError };
+
+export interface PageOverride {
+  match: string[];
+  mask?: string[];
+  hide?: string[];
+}
+
+export interface ScenarioStep {
+  action: 'click' | 'hover' | 'fill' | 'press' | 'scrollTo' | 'waitForSelector' | 'waitForRequest' | 'wait' | 'screenshot';
+  selector?: string;
+  value?: string;
+  key?: string;
+  url?: string;
+  name?: string;
+  state?: 'attached' | 'detached' | 'visible' | 'hidden';
+  y?: number;
+  ms?: number;
+  timeout?: number;
+}
+
+export interface Scenario {
+  name: string;
+  match: string[];
+  steps: ScenarioStep[];
+  fullPage?: boolean;
+}
+
+export interface AuthConfig {
+  httpCredentials?: {
+    username?: string;
+    password?: string;
+    usernameEnv?: string;
+    passwordEnv?: string;
+  };
+  headers?: Record<string, string>;
+  cookies?: Array<{
+    name: string;
+    value: string;
+    domain?: string;
+    path?: string;
+  }>;
+  storageState?: string;
+  login?: {
+    url: string;
+    usernameSelector: string;
+    passwordSelector: string;
+    submitSelector?: string;
+    successSelector?: string;
+    waitForURL?: string;
+    username?: string;
+    password?: string;
+    usernameEnv?: string;
+    passwordEnv?: string;
+  };
+}
+
+export interface ComponentConfig {
+  name: string;
+  selector: string;
+  match?: string[];
+  /** Number of matching elements captured (default: 1, only the first match) */
+  maxElements?: number;
+  threshold?: {
+    maxDiffPixels?: number;
+    maxDiffPixelRatio?: number;
+  };
+}
+
+export interface PathRewrite {
+  /** Path prefix, or a regular expression with `type: 'regex'` */
+  from: string;
+  /** Replacement; regex rules can use `$1`, `$2`, ... */
+  to: string;
+  type?: 'prefix' | 'regex';
+}
+
+export interface DeterminismConfig {
+  /** Freeze `Date` at this time (ISO date string or epoch milliseconds) */
+  freezeTime?: string | number;
+  /** Seed for `Math.random` */
+  randomSeed?: number | string;
+  /** Domains whose requests are aborted (subdomains included) */
+  block?: string[];
+  /** Domains whose requests get an empty response (subdomains included) */
+  stub?: string[];
+}
+
+export interface HARConfig {
+  /** Unmatched requests during replay: abort them (default) or go to the network */
+  notFound?: 'abort' | 'fallback';
+  /** Record again if a recording is older than this */
+  maxAgeHours?: number;
+}
+
+export interface CalibrationConfig {
+  /** Screenshots per page, including the first load (default: 3) */
+  runs?: number;
+  /** Pixels added around every changed region (default: 4) */
+  padding?: number;
+  /** Mask nothing if the regions cover more than this ratio of the page (default: 0.5) */
+  maxArea?: number;
+}
+
+export interface StabilizationConfig {
+  /** Scroll through the page to trigger lazy loading (default: true) */
+  scroll?: boolean;
+  /** Wait after each scrolled screen, in ms (default: 100) */
+  scrollDelay?: number;
+  /** Wait until all images are decoded (default: true) */
+  images?: boolean;
+  /** Wait until web fonts are loaded (default: true) */
+  fonts?: boolean;
+  /** Wait until page height and DOM are unchanged for this long, in ms (default: 500, 0 to skip) */
+  stableFor?: number;
+  /** Maximum time of all steps together, in ms (default: 10000) */
+  timeout?: number;
+}
+
+export type ComparisonAlgorithm = 'exact' | 'antialiasing' | 'ssim';
+
+export interface ComparisonConfig {
+  /** How pixels are compared (default: antialiasing) */
+  algorithm?: ComparisonAlgorithm;
+  /** antialiasing: color difference that counts as a change, 0 to 1 (default: 0.1) */
+  threshold?: number;
+  /** ssim: 8×8 blocks at least this similar count as unchanged, 0 to 1 (default: 0.98) */
+  minSSIM?: number;
+  /** Changed pixels in neighbouring cells of this size form one region (default: 16) */
+  cellSize?: number;
+  /** Fail if there are more changed regions (region rules replace maxDiffPixels/maxDiffPixelRatio) */
+  maxRegions?: number;
+  /** Fail if a region has more changed pixels */
+  maxRegionPixels?: number;
+  /** Fail if a region is wider */
+  maxRegionWidth?: number;
+  /** Fail if a region is higher */
+  maxRegionHeight?: number;
+}
+
+/**
+ * Argument of the hook functions
+ */
+export interface HookContext {
+  page: Page;
+  /** Collected (reference) URL */
+  url: string;
+  viewport: { name: string; width: number; height: number };
+  browser: BrowserName;
+  project: string;
+  /** `reference` while creating the baseline, `test` while comparing */
+  target: 'reference' | 'test';
+  kind: 'page' | 'scenario' | 'component';
+  /** Scenario or component name (`page` for page screenshots) */
+  name: string;
+  /** Snapshot name (beforeScreenshot only) */
+  screenshot?: string;
+}
+
+/**
+ * Functions exported by a hook module (see `hooks`)
+ */
+export interface VRTHooks {
+  beforeNavigate?(context: HookContext): void | Promise<void>;
+  afterLoad?(context: HookContext): void | Promise<void>;
+  beforeScreenshot?(context: HookContext): void | Promise<void>;
+}
+
+export interface SamplingConfig {
+  strategy?: 'first' | 'template' | 'priority' | 'lastmod' | 'random';
+  /** template: order within a group (default: sitemap order) */
+  order?: 'sitemap' | 'priority' | 'lastmod' | 'random';
+  /** template: URLs per group (default: 2) */
+  perGroup?: number;
+  /** template: explicit groups by path pattern; other URLs are grouped by page template */
+  groups?: Array<{
+    name?: string;
+    match: string[];
+    limit?: number;
+  }>;
+  /** random: seed for a reproducible sample (default: 1) */
+  seed?: number | string;
+  /** Paths (or path globs) that are always tested */
+  alwaysInclude?: string[];
+}
+
+export interface StorageConfig {
+  type: 'filesystem' | 's3';
+  /** filesystem: directory holding the baselines */
+  path?: string;
+  /** filesystem: .tar.gz archives (default) or plain directories */
+  format?: 'tar' | 'directory';
+  bucket?: string;
+  prefix?: string;
+  endpoint?: string;
+  region?: string;
+  accessKeyIdEnv?: string;
+  secretAccessKeyEnv?: string;
+  /** Branch to store the baseline under (default: from CI variables or git) */
+  branch?: string;
+  /** Branch whose baseline is used if the current branch has none (default: main) */
+  fallbackBranch?: string;
+}
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export const BROWSERS: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
 export interface VRTConfig {
   referenceUrl: string;
   testUrl: string;
   sitemapPath?: string;
+  /** Sitemap paths or URLs (replaces sitemapPath) */
+  sitemaps?: string[];
+  sitemapOptions?: {
+    /** Add the hreflang alternates of sitemap entries */
+    alternates?: boolean;
+    /** Only keep URLs in these languages (e.g. `de` also matches `de-CH`) */
+    languages?: string[];
+  };
+  /** URLs or paths to test (sitemaps are only used in addition if `sitemaps` is set) */
+  urls?: string[];
   maxUrls?: number;
   exclude?: string[];
   include?: string[];
+  sampling?: SamplingConfig;
   crawlOptions?: {
     maxDepth?: number;
+    maxPages?: number;
+    concurrency?: number;
+    respectRobotsTxt?: boolean;
+    respectNofollow?: boolean;
     removeTrailingSlash?: boolean;
   };
+  /** Map reference paths to the test environment (first matching rule) */
+  pathRewrites?: PathRewrite[];
   viewports?: Array<{
     name: string;
     width: number;
     height: number;
   }>;
+  browsers?: BrowserName[];
+  /** Parallel browsers: a number or a percentage of the CPU cores, e.g. `50%` (default: 3) */
+  workers?: number | string;
+  /** Retries of failed tests (default: 2 on CI, 1 otherwise) */
+  retries?: number;
   threshold?: {
     maxDiffPixels?: number;
     maxDiffPixelRatio?: number;
   };
+  /** Compare with another algorithm and fail by region size instead of Playwright's pixel budget */
+  comparison?: ComparisonConfig;
+  mask?: string[];
+  maskColor?: string;
+  hide?: string[];
+  overrides?: PageOverride[];
+  /** Record the reference pass per URL and replay it when regenerating baselines */
+  har?: HARConfig;
+  /** Mask regions that change between identical loads (detected while creating the baseline) */
+  calibration?: CalibrationConfig;
+  /** Wait for lazy content, images, fonts and a stable layout after loading (`false`: fonts only) */
+  stabilization?: StabilizationConfig | false;
+  /** Capture accessibility tree and text with every screenshot and diff them on failure (default: true) */
+  contentDiff?: boolean;
+  /** JS/TS modules exporting hook functions (paths relative to the working directory) */
+  hooks?: string[];
+  /** Frozen clock, seeded randomness and third-party blocking, for baseline and test pass */
+  determinism?: DeterminismConfig;
+  scenarios?: Scenario[];
+  components?: ComponentConfig[];
+  auth?: {
+    reference?: AuthConfig;
+    test?: AuthConfig;
+  };
+  storage?: StorageConfig;
 }
 
 export interface CLIOptions {
@@ -28,11 +291,18 @@ export interface CLIOptions {
   config: string;
   output?: string;
   maxUrls?: number;
+  urlsFile?: string;
   project?: string;
   verbose?: boolean;
-  identifier?: string;
   updateBaseline?: boolean;
   headed?: boolean;
+  urls?: string[];
+  ids?: string[];
+  dryRun?: boolean;
+  shard?: string;
+  workers?: number | string;
+  retries?: number;
+  blobDir?: string;
 }
 
 export const DEFAULT_CONFIG: Partial<VRTConfig> = {
@@ -42,77 +312,269 @@ export const DEFAULT_CONFIG: Partial<VRTConfig> = {
   include: ['*'],
   crawlOptions: {
     maxDepth: 1,
+    maxPages: 200,
+    concurrency: 4,
+    respectRobotsTxt: true,
+    respectNofollow: true,
     removeTrailingSlash: true,
   },
   viewports: [
     { name: 'desktop', width: 1920, height: 1080 },
   ],
+  browsers: ['chromium'],
   threshold: {
     maxDiffPixels: 100,
     maxDiffPixelRatio: 0.01,
   },
 };
 
-export async function loadConfig(configPath: string): Promise<VRTConfig> {
-  try {
-    const file = Bun.file(configPath);
-    const config = await file.json();
-
-    // Merge with defaults
-    return {
-      ...DEFAULT_CONFIG,
-      ...config,
-      crawlOptions: {
-        ...DEFAULT_CONFIG.crawlOptions,
-        ...config.crawlOptions,
-      },
-      viewports: config.viewports || DEFAULT_CONFIG.viewports,
-      threshold: {
-        ...DEFAULT_CONFIG.threshold,
-        ...config.threshold,
-      },
-    };
-  } catch (error) {
-    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
-      throw new Error(`Config file not found: ${configPath}`);
-    }
-    throw error;
+/**
+ * Config as written by users: everything is optional (URLs can come from the CLI)
+ * and `extends` points to one or more base configs.
+ */
+export type UserConfig = Partial<VRTConfig> & {
+  extends?: string | string[];
+};
+
+/**
+ * Identity helper for typed `.js`/`.ts` config modules
+ */
+export function defineConfig(config: UserConfig): UserConfig {
+  return config;
+}
+
+/**
+ * Identity helper for typed hook modules
+ */
+export function defineHooks(hooks: VRTHooks): VRTHooks {
+  return hooks;
+}
+
+const CONFIG_MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts'];
+
+/**
+ * Read a single config file without resolving `extends`
+ */
+async function readConfigFile(configPath: string): Promise<UserConfig> {
+  const ext = path.extname(configPath).toLowerCase();
+
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Config file not found: ${configPath}`);
   }
+
+  if (ext === '.yaml' || ext === '.yml') {
+    return (YAML.parse(fs.readFileSync(configPath, 'utf-8')) || {}) as UserConfig;
+  }
+
+  if (CONFIG_MODULE_EXTENSIONS.includes(ext)) {
+    const module = await import(pathToFileURL(configPath).href);
+    const exported = module.default ?? module;
+    // Modules may also export a (async) function returning the config
+    return typeof exported === 'function' ? await exported() : exported;
+  }
+
+  return JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-export function validateConfig(config: VRTConfig): void {
-  // Validate required URLs
-  if (!config.testUrl) {
-    throw new Error('testUrl is required');
+/**
+ * Deep merge configs: objects are merged, arrays and other values are replaced
+ */
+function mergeConfigs(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(value) && isPlainObject(base[key])
+      ? mergeConfigs(base[key], value)
+      : value;
   }
-  if (!config.referenceUrl) {
-    throw new Error('referenceUrl is required');
+
+  return merged;
+}
+
+/**
+ * Load a config file and the base configs it extends (paths relative to the file)
+ */
+async function resolveConfigFile(configPath: string, chain: string[] = []): Promise<UserConfig> {
+  if (chain.includes(configPath)) {
+    throw new Error(`Circular "extends" in config: ${[...chain, configPath].join(' -> ')}`);
   }
 
-  // Validate URL format
-  try {
-    new URL(config.referenceUrl);
-    new URL(config.testUrl);
-  } catch {
-    throw new Error('Invalid URL format in referenceUrl or testUrl');
+  const config = await readConfigFile(configPath);
+  if (!isPlainObject(config)) {
+    throw new Error(`Config file must contain an object: ${configPath}`);
+  }
+
+  const { extends: parents, ...own } = config;
+  let merged: Record<string, any> = {};
+
+  for (const parent of [parents || []].flat()) {
+    const parentPath = path.resolve(path.dirname(configPath), parent);
+    merged = mergeConfigs(merged, await resolveConfigFile(parentPath, [...chain, configPath]));
+  }
+
+  return mergeConfigs(merged, own);
+}
+
+/**
+ * Replace `${VAR}` and `${VAR:-default}` in all string values with environment variables
+ */
+export function interpolateEnv<T>(value: T, keyPath = ''): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+      const envValue = process.env[name];
+      if (envValue !== undefined) {
+        return envValue;
+      }
+      if (fallback !== undefined) {
+        return fallback;
+      }
+      throw new Error(`Environment variable ${name} used in config "${keyPath}" is not set`);
+    }) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolateEnv(item, `${keyPath}[${index}]`)) as T;
   }
 
-  // Validate viewports
-  if (!config.viewports || config.viewports.length === 0) {
-    throw new Error('At least one viewport must be defined');
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, keyPath ? `${keyPath}.${key}` : key)])
+    ) as T;
   }
 
-  for (const vp of config.viewports) {
-    if (!vp.name || vp.width <= 0 || vp.height <= 0) {
-      throw new Error(`Invalid viewport configuration: ${JSON.stringify(vp)}`);
+  return value;
+}
+
+export async function loadConfig(configPath: string): Promise<VRTConfig> {
+  return withDefaults(interpolateEnv(await resolveConfigFile(path.resolve(configPath))));
+}
+
+/**
+ * Merge a config with the defaults (nested crawler and threshold settings included)
+ */
+export function withDefaults(config: UserConfig): VRTConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    ...config,
+    crawlOptions: {
+      ...DEFAULT_CONFIG.crawlOptions,
+      ...config.crawlOptions,
+    },
+    viewports: config.viewports || DEFAULT_CONFIG.viewports,
+    threshold: {
+      ...DEFAULT_CONFIG.threshold,
+      ...config.threshold,
+    },
+  } as VRTConfig;
+}
+
+/**
+ * Validate the config against the schema plus checks the schema can't express.
+ * Throws a ConfigValidationError listing all errors; returns warnings (e.g. unknown keys).
+ */
+export function validateConfig(config: VRTConfig): string[] {
+  const { errors, warnings } = validateSchema(config, CONFIG_SCHEMA);
+
+  // URLs may also come from the command line, so they are checked here
+  for (const key of ['referenceUrl', 'testUrl'] as const) {
+    const value = config[key];
+    if (!value) {
+      if (!errors.some((issue) => issue.path === key)) {
+        errors.push({ path: key, message: 'is required' });
+      }
+      continue;
+    }
+    if (typeof value === 'string' && !isHttpURL(value)) {
+      errors.push({ path: key, message: `invalid URL "${value}"` });
     }
   }
 
-  // Validate threshold
-  if (config.threshold) {
-    if (config.threshold.maxDiffPixelRatio &&
-        (config.threshold.maxDiffPixelRatio < 0 || config.threshold.maxDiffPixelRatio > 1)) {
-      throw new Error('maxDiffPixelRatio must be between 0 and 1');
+  if (Array.isArray(config.scenarios)) {
+    errors.push(...validateScenarios(config.scenarios));
+  }
+  if (Array.isArray(config.components)) {
+    errors.push(...duplicateNames(config.components, 'components'));
+  }
+
+  (Array.isArray(config.pathRewrites) ? config.pathRewrites : []).forEach((rule, index) => {
+    if (rule?.type !== 'regex' || typeof rule.from !== 'string') return;
+    try {
+      new RegExp(rule.from);
+    } catch (error) {
+      errors.push({ path: `pathRewrites[${index}].from`, message: `invalid regular expression (${(error as Error).message})` });
+    }
+  });
+
+  (Array.isArray(config.hooks) ? config.hooks : []).forEach((file, index) => {
+    if (typeof file === 'string' && !fs.existsSync(path.resolve(file))) {
+      errors.push({ path: `hooks[${index}]`, message: `file not found "${file}"` });
     }
+  });
+
+  const freezeTime = config.determinism?.freezeTime;
+  if (typeof freezeTime === 'string' && Number.isNaN(Date.parse(freezeTime))) {
+    errors.push({ path: 'determinism.freezeTime', message: `invalid date "${freezeTime}"` });
+  }
+
+  if (config.storage?.type === 's3' && !config.storage.bucket) {
+    errors.push({ path: 'storage.bucket', message: 'is required for S3 storage' });
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigValidationError(errors, warnings);
+  }
+
+  return warnings.map((issue) => `${issue.path}: ${issue.message}`);
+}
+
+function isHttpURL(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
   }
 }
+
+function duplicateNames(items: Array<{ name?: unknown }>, key: string): SchemaIssue[] {
+  const seen = new Set<unknown>();
+  const issues: SchemaIssue[] = [];
+  items.forEach((item, index) => {
+    if (!item || typeof item.name !== 'string') return;
+    if (seen.has(item.name)) {
+      issues.push({ path: `${key}[${index}].name`, message: `duplicate name "${item.name}"` });
+    }
+    seen.add(item.name);
+  });
+  return issues;
+}
+
+const SELECTOR_ACTIONS: ScenarioStep['action'][] = ['click', 'hover', 'fill', 'waitForSelector'];
+
+function validateScenarios(scenarios: Scenario[]): SchemaIssue[] {
+  const issues = duplicateNames(scenarios, 'scenarios');
+
+  scenarios.forEach((scenario, index) => {
+    if (!Array.isArray(scenario?.steps)) return;
+
+    scenario.steps.forEach((step, stepIndex) => {
+      const at = `scenarios[${index}].steps[${stepIndex}]`;
+      if (!step) return;
+      if (SELECTOR_ACTIONS.includes(step.action) && !step.selector) {
+        issues.push({ path: `${at}.selector`, message: `is required for "${step.action}"` });
+      }
+      if (step.action === 'press' && !step.key) {
+        issues.push({ path: `${at}.key`, message: 'is required for "press"' });
+      }
+      if (step.action === 'waitForRequest' && !step.url) {
+        issues.push({ path: `${at}.url`, message: 'is required for "waitForRequest"' });
+      }
+    });
+  });
+
+  return issues;
+}
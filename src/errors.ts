@@ -0,0 +1,74 @@
+#!/usr/bin/env bun
+
+import type { SchemaIssue } from './schema.js';
+
+/**
+ * Base class of the errors thrown by the API; `code` identifies the kind of failure
+ */
+export class VRTError extends Error {
+  constructor(message: string, readonly code: string) {
+    super(message);
+    this.name = 'VRTError';
+  }
+}
+
+/**
+ * Config validation failed; `issues` lists every problem with its key path
+ */
+export class ConfigValidationError extends VRTError {
+  constructor(readonly issues: SchemaIssue[], readonly warnings: SchemaIssue[] = []) {
+    super(`Invalid config:\n${issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join('\n')}`, 'CONFIG_INVALID');
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * No URLs could be collected (or none are left after filtering)
+ */
+export class URLCollectionError extends VRTError {
+  constructor(message: string) {
+    super(message, 'NO_URLS');
+    this.name = 'URLCollectionError';
+  }
+}
+
+/**
+ * Baselines are missing or outdated and can't be created.
+ * `pairs` lists the affected `<project> <url>` pairs, if known.
+ */
+export class BaselineMissingError extends VRTError {
+  constructor(message: string, readonly pairs: string[] = []) {
+    super(message, 'BASELINE_MISSING');
+    this.name = 'BaselineMissingError';
+  }
+}
+
+/**
+ * Pulling or pushing the baseline storage failed
+ */
+export class StorageError extends VRTError {
+  constructor(message: string) {
+    super(message, 'STORAGE');
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Logging in to an environment failed
+ */
+export class AuthError extends VRTError {
+  constructor(message: string) {
+    super(message, 'AUTH');
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Playwright could not be started
+ */
+export class PlaywrightError extends VRTError {
+  constructor(message: string) {
+    super(message, 'PLAYWRIGHT');
+    this.name = 'PlaywrightError';
+  }
+}
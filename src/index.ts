@@ -1,2 +1,52 @@
 #!/usr/bin/env bun
-import './cli.ts';
+
+export {
+  defineConfig,
+  defineHooks,
+  loadConfig,
+  validateConfig,
+  ConfigValidationError,
+  DEFAULT_CONFIG,
+  withDefaults,
+  type VRTConfig,
+  type UserConfig,
+  type AuthConfig,
+  type BrowserName,
+  type ComponentConfig,
+  type PageOverride,
+  type DeterminismConfig,
+  type HARConfig,
+  type CalibrationConfig,
+  type StabilizationConfig,
+  type ComparisonConfig,
+  type ComparisonAlgorithm,
+  type PathRewrite,
+  type HookContext,
+  type VRTHooks,
+  type Scenario,
+  type ScenarioStep,
+  type StorageConfig,
+  type SamplingConfig,
+} from './config.js';
+
+export { CONFIG_SCHEMA, validateSchema, type SchemaIssue } from './schema.js';
+
+export {
+  runVRT,
+  VRTEventEmitter,
+  type VRTOptions,
+  type VRTResult,
+  type VRTEvents,
+} from './api.js';
+
+export {
+  VRTError,
+  URLCollectionError,
+  BaselineMissingError,
+  StorageError,
+  AuthError,
+  PlaywrightError,
+} from './errors.js';
+
+export type { Logger, ProjectResults } from './runner.js';
+export type { ScreenshotResult, ScreenshotStatus, NotFoundPage, BlockedRequest, AutoMaskRegion, ContentDiff, ContentDiffCounts, DiffRegion } from './results.js';
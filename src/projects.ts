@@ -0,0 +1,55 @@
+#!/usr/bin/env bun
+
+import type { BrowserName, VRTConfig } from './config.js';
+
+export interface VRTProject {
+  name: string;
+  viewport: string;
+  browser: BrowserName;
+}
+
+/**
+ * Build the viewport × browser project matrix.
+ * Naming must match the projects created in playwright.config.js.
+ */
+export function buildProjects(config: VRTConfig): VRTProject[] {
+  const browsers = config.browsers && config.browsers.length > 0 ? config.browsers : ['chromium' as const];
+  const projects: VRTProject[] = [];
+
+  for (const viewport of config.viewports || []) {
+    for (const browser of browsers) {
+      projects.push({
+        name: `${viewport.name}-${browser}`,
+        viewport: viewport.name,
+        browser,
+      });
+    }
+  }
+
+  return projects;
+}
+
+/**
+ * Resolve a --project filter into Playwright project names.
+ * The filter is a comma-separated list of project names (`desktop-firefox`),
+ * viewport names (`desktop`) or browser names (`webkit`).
+ */
+export function resolveProjects(config: VRTConfig, filter: string): string[] {
+  const projects = buildProjects(config);
+  const names = new Set<string>();
+
+  for (const token of filter.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const matches = projects.filter((project) =>
+      project.name === token || project.viewport === token || project.browser === token
+    );
+
+    if (matches.length === 0) {
+      const available = projects.map((project) => project.name).join(', ');
+      throw new Error(`Unknown project "${token}". Available projects: ${available}`);
+    }
+
+    matches.forEach((project) => names.add(project.name));
+  }
+
+  return Array.from(names);
+}
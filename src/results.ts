@@ -0,0 +1,451 @@
+#!/usr/bin/env bun
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildProjects } from './projects.js';
+import type { VRTConfig, ComparisonAlgorithm } from './config.js';
+
+export type ScreenshotStatus = 'passed' | 'failed' | 'missing';
+
+/**
+ * One compared screenshot (URL × project × screenshot name)
+ */
+export interface ScreenshotResult {
+  id: string;
+  title: string;
+  url: string;
+  project: string;
+  viewport?: string;
+  browser?: string;
+  kind: 'page' | 'scenario' | 'component';
+  name: string;
+  status: ScreenshotStatus;
+  /** Path requested on the test side (after `pathRewrites`) */
+  testPath?: string;
+  /** HTTP status of the test page */
+  httpStatus?: number;
+  /** Requests blocked or stubbed by the `determinism` settings */
+  blockedRequests?: BlockedRequest[];
+  /** Regions masked by the noise calibration */
+  autoMask?: AutoMaskRegion[];
+  retries: number;
+  duration: number;
+  diffPixels?: number;
+  diffRatio?: number;
+  /** Algorithm of a `comparison` (not set for Playwright's comparison) */
+  comparison?: ComparisonAlgorithm;
+  /** Changed regions found by the `comparison`, top to bottom */
+  regions?: DiffRegion[];
+  baseline?: string;
+  actual?: string;
+  diff?: string;
+  error?: string;
+  /** Structure and text changes of a differing screenshot (`contentDiff`) */
+  contentDiff?: ContentDiff;
+  approvedAt?: string;
+}
+
+/**
+ * Bounding box of neighbouring changed pixels
+ */
+export interface DiffRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Changed pixels inside the box */
+  pixels: number;
+}
+
+export interface ContentDiffCounts {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+/**
+ * Accessibility tree and visible text compared with the baseline's
+ */
+export interface ContentDiff {
+  structure: ContentDiffCounts;
+  text: ContentDiffCounts;
+  /** Readable diff, also attached to the HTML report */
+  report: string;
+  /** Content snapshot of the actual page (copied into the baseline on approve) */
+  actual: string;
+}
+
+export interface BlockedRequest {
+  url: string;
+  action: 'block' | 'stub';
+}
+
+/**
+ * Region that changed between identical loads of the reference page
+ */
+export interface AutoMaskRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  reason: string;
+}
+
+export interface ResultsExport {
+  generatedAt: string;
+  summary: {
+    passed: number;
+    failed: number;
+    total: number;
+  };
+  results: ScreenshotResult[];
+  /** Pages that do not exist on the test side (404/410) */
+  notFound: NotFoundPage[];
+}
+
+export interface NotFoundPage {
+  url: string;
+  testPath: string;
+  project: string;
+  status: number;
+}
+
+interface Attachment {
+  name: string;
+  contentType: string;
+  path?: string;
+  body?: string;
+}
+
+/**
+ * Metadata attached by tests/lib/meta.js
+ */
+interface TestMeta {
+  url?: string;
+  kind?: ScreenshotResult['kind'];
+  name?: string;
+  navigation?: { target: 'reference' | 'test'; path: string; status?: number };
+  blockedRequests?: BlockedRequest[];
+  autoMask?: AutoMaskRegion[];
+  screenshots: Array<{
+    name: string;
+    baseline: string;
+    contentDiff?: ContentDiff;
+    comparison?: ComparisonAlgorithm;
+    regions?: DiffRegion[];
+    diffPixels?: number;
+    diffRatio?: number;
+  }>;
+}
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Read the Playwright JSON report (results.json) from the output directory
+ */
+export function readPlaywrightReport(outputDir: string): any {
+  const resultsPath = path.join(outputDir, 'results.json');
+  return JSON.parse(fs.readFileSync(resultsPath, 'utf-8'));
+}
+
+/**
+ * Flatten the Playwright JSON report into one entry per compared screenshot.
+ * Walks nested suites and uses the final attempt of retried tests.
+ */
+export function collectScreenshotResults(report: any, config: VRTConfig): ScreenshotResult[] {
+  const projects = new Map(buildProjects(config).map((project) => [project.name, project]));
+  const entries: ScreenshotResult[] = [];
+
+  const visitSuite = (suite: any) => {
+    for (const spec of suite.specs || []) {
+      for (const test of spec.tests || []) {
+        if (test.status === 'skipped' || !test.results?.length) {
+          continue;
+        }
+
+        const result = test.results[test.results.length - 1];
+        const project = projects.get(test.projectName);
+        const meta = readMeta(result.attachments || []);
+        const navigation = meta.navigation?.target === 'test' ? meta.navigation : undefined;
+        const base = {
+          id: spec.id,
+          title: spec.title,
+          url: meta.url || spec.title.replace(/^VRT: /, ''),
+          project: test.projectName,
+          viewport: project?.viewport,
+          browser: project?.browser,
+          kind: meta.kind || 'page',
+          testPath: navigation?.path,
+          httpStatus: navigation?.status,
+          blockedRequests: meta.blockedRequests?.length ? meta.blockedRequests : undefined,
+          autoMask: meta.autoMask?.length ? meta.autoMask : undefined,
+          retries: test.results.length - 1,
+          duration: result.duration || 0,
+        };
+
+        entries.push(...screenshotEntries(base, meta, result, test.status));
+      }
+    }
+
+    for (const child of suite.suites || []) {
+      visitSuite(child);
+    }
+  };
+
+  for (const suite of report.suites || []) {
+    visitSuite(suite);
+  }
+
+  return entries;
+}
+
+function readMeta(attachments: Attachment[]): TestMeta {
+  const attachment = attachments.find((a) => a.name === 'vrt-meta');
+  if (!attachment?.body) {
+    return { screenshots: [] };
+  }
+  try {
+    return JSON.parse(Buffer.from(attachment.body, 'base64').toString('utf-8'));
+  } catch {
+    return { screenshots: [] };
+  }
+}
+
+/**
+ * Screenshot name for an attachment like `slug/page-actual.png` -> `slug/page.png`
+ */
+function attachmentScreenshotName(attachmentName: string, suffix: string): string | undefined {
+  const normalized = attachmentName.split(path.sep).join('/');
+  const ext = path.extname(normalized);
+  const stem = normalized.slice(0, normalized.length - ext.length);
+  return stem.endsWith(suffix) ? stem.slice(0, -suffix.length) + ext : undefined;
+}
+
+function screenshotEntries(
+  base: Omit<ScreenshotResult, 'name' | 'status'>,
+  meta: TestMeta,
+  result: any,
+  testStatus: string
+): ScreenshotResult[] {
+  const attachments: Attachment[] = result.attachments || [];
+  const errors: string[] = (result.errors || []).map((e: any) => (e.message || '').replace(ANSI_PATTERN, ''));
+  const testPassed = testStatus === 'expected' || testStatus === 'flaky';
+
+  const findAttachment = (name: string, suffix: string) =>
+    attachments.find((a) => a.path && attachmentScreenshotName(a.name, suffix) === name)?.path;
+
+  // A test that failed before taking any screenshot still gets one entry
+  if (meta.screenshots.length === 0) {
+    return [{
+      ...base,
+      name: meta.name || '',
+      status: testPassed ? 'passed' : 'failed',
+      error: testPassed ? undefined : errors.join('\n') || undefined,
+    }];
+  }
+
+  return meta.screenshots.map((screenshot, index) => {
+    const actual = findAttachment(screenshot.name, '-actual');
+    const diff = findAttachment(screenshot.name, '-diff');
+    const error = errors.find((message) => message.includes(`Snapshot: ${screenshot.name.split('/').join(path.sep)}`));
+    const isLast = index === meta.screenshots.length - 1;
+
+    const entry: ScreenshotResult = {
+      ...base,
+      name: screenshot.name,
+      status: 'passed',
+      baseline: screenshot.baseline,
+      actual,
+      diff,
+      comparison: screenshot.comparison,
+      regions: screenshot.regions?.length ? screenshot.regions : undefined,
+      contentDiff: screenshot.contentDiff,
+    };
+
+    if (actual && !diff && !error) {
+      // An actual image without a diff means there was no baseline to compare with
+      entry.status = testPassed ? 'passed' : 'missing';
+    } else if (actual || error) {
+      entry.status = 'failed';
+    } else if (!testPassed && isLast) {
+      // The test failed while taking its last screenshot (e.g. a timeout)
+      entry.status = 'failed';
+    }
+
+    if (entry.status !== 'passed') {
+      const message = error || (isLast ? errors.join('\n') : '');
+      entry.error = message || undefined;
+      Object.assign(entry, parseDiffNumbers(message, actual));
+      // A `comparison` records its numbers, also when failing by region rules
+      if (screenshot.diffPixels !== undefined) {
+        entry.diffPixels = screenshot.diffPixels;
+        entry.diffRatio = screenshot.diffRatio;
+      }
+    }
+
+    return entry;
+  });
+}
+
+/**
+ * Extract the number of different pixels from a toHaveScreenshot() error,
+ * and compute the ratio from the actual image size
+ */
+function parseDiffNumbers(message: string, actualPath?: string): Pick<ScreenshotResult, 'diffPixels' | 'diffRatio'> {
+  const match = message.match(/(\d+) pixels \(ratio ([\d.]+) of all image pixels\) are different/);
+  if (!match) {
+    return {};
+  }
+
+  const diffPixels = parseInt(match[1], 10);
+  let diffRatio = parseFloat(match[2]);
+
+  const size = actualPath ? readPNGSize(actualPath) : undefined;
+  if (size && size.width * size.height > 0) {
+    diffRatio = diffPixels / (size.width * size.height);
+  }
+
+  return { diffPixels, diffRatio };
+}
+
+/**
+ * Read width and height from the PNG header (IHDR chunk)
+ */
+function readPNGSize(filePath: string): { width: number; height: number } | undefined {
+  try {
+    const header = Buffer.alloc(24);
+    const fd = fs.openSync(filePath, 'r');
+    fs.readSync(fd, header, 0, 24, 0);
+    fs.closeSync(fd);
+    return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * URL × project pairs whose test page returned 404 or 410 (after `pathRewrites`)
+ */
+export function findNotFound(results: ScreenshotResult[]): NotFoundPage[] {
+  const pages = new Map<string, NotFoundPage>();
+  for (const result of results) {
+    if ((result.httpStatus === 404 || result.httpStatus === 410) && result.testPath) {
+      pages.set(`${result.project} ${result.url}`, {
+        url: result.url,
+        testPath: result.testPath,
+        project: result.project,
+        status: result.httpStatus,
+      });
+    }
+  }
+  return Array.from(pages.values());
+}
+
+/**
+ * Build the results export document
+ */
+export function buildResultsExport(results: ScreenshotResult[]): ResultsExport {
+  const failed = results.filter((r) => r.status !== 'passed').length;
+  return {
+    generatedAt: new Date().toISOString(),
+    summary: {
+      passed: results.length - failed,
+      failed,
+      total: results.length,
+    },
+    results,
+    notFound: findNotFound(results),
+  };
+}
+
+/**
+ * Write the normalized results as JSON
+ */
+export function writeResultsJSON(results: ScreenshotResult[], filePath: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(buildResultsExport(results), null, 2), 'utf-8');
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Strip characters that are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+/**
+ * Write the results as JUnit XML, one test suite per project
+ */
+export function writeJUnitXML(results: ScreenshotResult[], filePath: string): void {
+  const byProject = new Map<string, ScreenshotResult[]>();
+  for (const result of results) {
+    if (!byProject.has(result.project)) {
+      byProject.set(result.project, []);
+    }
+    byProject.get(result.project)!.push(result);
+  }
+
+  const totalFailures = results.filter((r) => r.status !== 'passed').length;
+  const totalTime = results.reduce((sum, r) => sum + r.duration, 0) / 1000;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="playwright-vrt" tests="${results.length}" failures="${totalFailures}" time="${totalTime.toFixed(3)}">`,
+  ];
+
+  for (const [project, entries] of byProject) {
+    const failures = entries.filter((r) => r.status !== 'passed').length;
+    const time = entries.reduce((sum, r) => sum + r.duration, 0) / 1000;
+    lines.push(`  <testsuite name="${escapeXML(project)}" tests="${entries.length}" failures="${failures}" time="${time.toFixed(3)}">`);
+
+    for (const entry of entries) {
+      const name = entry.name ? `${entry.url} (${entry.name})` : entry.url;
+      lines.push(`    <testcase classname="${escapeXML(project)}" name="${escapeXML(name)}" time="${(entry.duration / 1000).toFixed(3)}">`);
+
+      if (entry.status !== 'passed') {
+        const message = entry.status === 'missing'
+          ? 'Baseline screenshot is missing'
+          : entry.diffPixels !== undefined
+            ? `${entry.diffPixels} pixels (ratio ${entry.diffRatio?.toFixed(4)}) are different`
+            : 'Visual comparison failed';
+        lines.push(`      <failure message="${escapeXML(message)}">${escapeXML(entry.error || message)}</failure>`);
+      }
+
+      const files = [entry.baseline, entry.actual, entry.diff].filter(Boolean) as string[];
+      if (files.length > 0) {
+        lines.push(`      <system-out>${escapeXML(files.map((file) => `[[ATTACHMENT|${file}]]`).join('\n'))}</system-out>`);
+      }
+
+      lines.push('    </testcase>');
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, lines.join('\n') + '\n', 'utf-8');
+}
+
+/**
+ * Write vrt-results.json and junit.xml next to the HTML report
+ */
+export function exportResults(outputDir: string, config: VRTConfig): ScreenshotResult[] {
+  let report: any;
+  try {
+    report = readPlaywrightReport(outputDir);
+  } catch {
+    return [];
+  }
+
+  const results = collectScreenshotResults(report, config);
+  writeResultsJSON(results, path.join(outputDir, 'vrt-results.json'));
+  writeJUnitXML(results, path.join(outputDir, 'junit.xml'));
+
+  return results;
+}
@@ -0,0 +1,118 @@
+#!/usr/bin/env bun
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+export interface RobotsRules {
+  isAllowed(url: string): boolean;
+}
+
+const ALLOW_ALL: RobotsRules = { isAllowed: () => true };
+
+/**
+ * Fetch and parse robots.txt for the origin of the given URL.
+ * A missing or unreadable robots.txt allows everything.
+ */
+export async function fetchRobotsRules(
+  baseUrl: string,
+  headers: Record<string, string> = {},
+  userAgent = 'playwright-vrt'
+): Promise<RobotsRules> {
+  const robotsUrl = new URL('/robots.txt', baseUrl).toString();
+
+  try {
+    const response = await fetch(robotsUrl, { headers, signal: AbortSignal.timeout(10000) });
+    if (!response.ok) {
+      return ALLOW_ALL;
+    }
+    return parseRobots(await response.text(), userAgent);
+  } catch {
+    return ALLOW_ALL;
+  }
+}
+
+/**
+ * Parse robots.txt content, using the group for the given user agent
+ * or the `*` group if there is no specific one.
+ */
+export function parseRobots(content: string, userAgent = 'playwright-vrt'): RobotsRules {
+  const groups = new Map<string, RobotsRule[]>();
+  let currentAgents: string[] = [];
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share the same group
+      if (!lastWasAgent) {
+        currentAgents = [];
+      }
+      const agent = value.toLowerCase();
+      currentAgents.push(agent);
+      if (!groups.has(agent)) {
+        groups.set(agent, []);
+      }
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+
+    if ((field === 'allow' || field === 'disallow') && currentAgents.length > 0) {
+      // An empty Disallow means everything is allowed
+      if (!value) {
+        continue;
+      }
+      const rule: RobotsRule = {
+        allow: field === 'allow',
+        pattern: patternToRegExp(value),
+        length: value.length,
+      };
+      for (const agent of currentAgents) {
+        groups.get(agent)!.push(rule);
+      }
+    }
+  }
+
+  const rules = groups.get(userAgent.toLowerCase()) || groups.get('*') || [];
+
+  return {
+    isAllowed(url: string): boolean {
+      const urlObj = new URL(url);
+      const path = urlObj.pathname + urlObj.search;
+
+      // Longest matching rule wins, Allow wins ties
+      let match: RobotsRule | undefined;
+      for (const rule of rules) {
+        if (!rule.pattern.test(path)) {
+          continue;
+        }
+        if (!match || rule.length > match.length || (rule.length === match.length && rule.allow)) {
+          match = rule;
+        }
+      }
+
+      return match ? match.allow : true;
+    },
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp('^' + body + (anchored ? '$' : ''));
+}
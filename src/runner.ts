@@ -3,15 +3,31 @@
 import { spawn } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
+import { fileURLToPath } from 'url';
+import { prepareAuth, type AuthContext } from './auth.js';
+import { resolveProjects } from './projects.js';
+import { exportResults, type ScreenshotResult } from './results.js';
+import { Workspace } from './workspace.js';
+import { PlaywrightError } from './errors.js';
 import type { VRTConfig } from './config.js';
 
-export interface TestResults {
+export interface ProjectResults {
   passed: number;
   failed: number;
   total: number;
+}
+
+export interface TestResults extends ProjectResults {
   exitCode: number;
+  projects: Record<string, ProjectResults>;
+  screenshots: ScreenshotResult[];
 }
 
+/**
+ * Receives progress messages (`console` in the CLI)
+ */
+export type Logger = Pick<Console, 'log' | 'warn' | 'error'>;
+
 export interface RunnerOptions {
   config: VRTConfig;
   outputDir: string;
@@ -20,8 +36,21 @@ export interface RunnerOptions {
   updateBaseline?: boolean;
   hasExplicitReference?: boolean;
   headed?: boolean;
+  /** Only (re)create the baseline of these `<project> <url>` pairs (see cacheKey()) */
+  baselinePairs?: string[];
+  /** Progress messages (default: console) */
+  logger?: Logger;
+  /** Show the Playwright output (default) or capture it */
+  playwrightOutput?: 'inherit' | 'pipe';
+  /** Only run shard `i/n` of the tests */
+  shard?: string;
 }
 
+/**
+ * Default directory of the blob reports written by sharded comparisons
+ */
+export const BLOB_DIR = 'blob-report';
+
 /**
  * Check if baseline snapshots already exist and are valid
  */
@@ -53,78 +82,166 @@ export function hasExistingSnapshots(snapshotDir: string): boolean {
 }
 
 /**
- * Run Playwright tests using the shipped config and test files
- * Much simpler than the old approach - just exec playwright
+ * Count the baseline snapshot images (.png files)
  */
-export async function runVisualTests(options: RunnerOptions): Promise<TestResults> {
-  const { config, outputDir, verbose, project, updateBaseline, hasExplicitReference, headed } = options;
+export function countSnapshots(snapshotDir: string): number {
+  if (!fs.existsSync(snapshotDir)) {
+    return 0;
+  }
 
+  return fs.readdirSync(snapshotDir, { recursive: true, encoding: 'utf-8' })
+    .filter((file) => file.endsWith('.png'))
+    .length;
+}
+
+/**
+ * Locate the shipped Playwright config and resolve the --project filter
+ */
+function resolveRun(options: RunnerOptions) {
   // Find the playwright-vrt package directory
-  const packageDir = path.join(__dirname, '..');
-  const playwrightConfigPath = path.join(packageDir, 'playwright.config.js');
-  const snapshotDir = path.join(process.cwd(), 'playwright-snapshots');
+  const packageDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+  return {
+    playwrightConfigPath: path.join(packageDir, 'playwright.config.js'),
+    projects: options.project ? resolveProjects(options.config, options.project) : undefined,
+  };
+}
 
-  // Check if baseline snapshots already exist (look for any .png files in snapshots)
-  const hasBaseline = !updateBaseline && hasExistingSnapshots(snapshotDir);
+/**
+ * Create (or recreate) the baseline snapshots from the reference URL
+ */
+export async function createBaseline(options: RunnerOptions): Promise<void> {
+  const { config, outputDir, hasExplicitReference, headed, baselinePairs, logger = console } = options;
+  const { playwrightConfigPath, projects } = resolveRun(options);
 
-  if (hasBaseline) {
-    console.log('\n📸 Using existing baseline snapshots');
-    if (verbose) {
-      console.log('   (Use --update-baseline to regenerate from reference URL)');
-    }
-  } else {
-    if (updateBaseline) {
-      console.log('\n🔄 Updating baseline snapshots...');
-    } else {
-      console.log('\n📸 Creating baseline snapshots (first run)...');
-    }
-    console.log(`   Source: ${config.referenceUrl}`);
+  logger.log(`   Source: ${config.referenceUrl}`);
+  if (baselinePairs) {
+    logger.log(`   Pairs: ${baselinePairs.length} URL/project combination(s)`);
+  }
+  if (config.calibration) {
+    logger.log(`   Calibration: ${Math.max(2, config.calibration.runs ?? 3)} loads per page`);
+  }
+  if (config.har) {
+    const harDir = path.join(process.cwd(), 'playwright-snapshots', 'har');
+    const recordings = fs.existsSync(harDir)
+      ? fs.readdirSync(harDir, { recursive: true, encoding: 'utf-8' }).filter((file) => file.endsWith('.har')).length
+      : 0;
+    logger.log(`   HAR: ${recordings} recording(s), missing${config.har.maxAgeHours !== undefined ? ' and outdated' : ''} ones are recorded`);
+  }
 
-    // Step 1: Create baseline screenshots
-    await runPlaywright({
-      configPath: playwrightConfigPath,
-      baseURL: config.referenceUrl,
-      vrtConfig: config,
-      outputDir,
-      updateSnapshots: true,
-      verbose: true,
-      project,
-      headed,
-    });
+  // Without an explicit reference, the baseline comes from the test environment
+  const referenceAuth = await prepareAuth(config, hasExplicitReference ? 'reference' : 'test', config.referenceUrl);
+  await runPlaywright({
+    configPath: playwrightConfigPath,
+    target: 'reference',
+    baseURL: config.referenceUrl,
+    auth: referenceAuth,
+    vrtConfig: config,
+    outputDir,
+    updateSnapshots: true,
+    verbose: options.playwrightOutput !== 'pipe',
+    verboseTests: options.verbose,
+    projects,
+    headed,
+    only: baselinePairs,
+    shard: options.shard,
+  });
 
-    console.log('✓ Baseline created');
-  }
+  logger.log('✓ Baseline created');
+}
 
-  console.log(`\n🧪 Testing ${config.testUrl}`);
+/**
+ * Compare the test URL against the existing baseline snapshots
+ */
+export async function runComparison(options: RunnerOptions): Promise<TestResults> {
+  const { config, outputDir, headed, logger = console } = options;
+  const { playwrightConfigPath, projects } = resolveRun(options);
+
+  logger.log(`\n🧪 Testing ${config.testUrl}${options.shard ? ` (shard ${options.shard})` : ''}`);
+  if (config.comparison) {
+    const rules = ['maxRegions', 'maxRegionPixels', 'maxRegionWidth', 'maxRegionHeight'] as const;
+    const byRegion = rules.some((rule) => config.comparison![rule] !== undefined);
+    logger.log(`   Comparison: ${config.comparison.algorithm || 'antialiasing'}, ${byRegion ? 'failing by region size' : 'failing by pixel budget'}`);
+  }
 
-  // Step 2: Run tests against test URL
+  const testAuth = await prepareAuth(config, 'test', config.testUrl);
   const exitCode = await runPlaywright({
     configPath: playwrightConfigPath,
+    target: 'test',
     baseURL: config.testUrl,
+    auth: testAuth,
     vrtConfig: config,
     outputDir,
     updateSnapshots: false,
-    verbose: true,
-    project,
+    verbose: options.playwrightOutput !== 'pipe',
+    verboseTests: options.verbose,
+    projects,
     headed,
+    shard: options.shard,
+    blobDir: options.shard ? path.resolve(BLOB_DIR) : undefined,
   });
 
-  // Parse results
+  // Parse results and export them per screenshot (vrt-results.json, junit.xml)
   const results = await parseResults(outputDir);
   results.exitCode = exitCode;
+  results.screenshots = exportResults(outputDir, config);
 
   return results;
 }
 
+/**
+ * Run Playwright tests using the shipped config and test files
+ * Much simpler than the old approach - just exec playwright
+ */
+export async function runVisualTests(options: RunnerOptions): Promise<TestResults> {
+  const { verbose, updateBaseline, logger = console } = options;
+  const snapshotDir = path.join(process.cwd(), 'playwright-snapshots');
+
+  // Fail early on an invalid --project filter
+  resolveRun(options);
+
+  // Check if baseline snapshots already exist (look for any .png files in snapshots)
+  const snapshotsExist = hasExistingSnapshots(snapshotDir);
+  const hasBaseline = !updateBaseline && snapshotsExist;
+
+  if (hasBaseline) {
+    logger.log('\n📸 Using existing baseline snapshots');
+    if (verbose) {
+      logger.log('   (Use --update-baseline to regenerate from reference URL)');
+    }
+  } else {
+    if (options.baselinePairs) {
+      logger.log('\n🔄 Updating outdated baseline snapshots...');
+    } else if (updateBaseline && snapshotsExist) {
+      logger.log('\n🔄 Updating baseline snapshots...');
+    } else {
+      logger.log('\n📸 Creating baseline snapshots (first run)...');
+    }
+
+    // Step 1: Create baseline screenshots
+    await createBaseline(options);
+  }
+
+  // Step 2: Run tests against test URL
+  return runComparison(options);
+}
+
 interface PlaywrightRunOptions {
   configPath: string;
+  target: 'reference' | 'test';
   baseURL: string;
+  auth: AuthContext;
   vrtConfig: VRTConfig;
   outputDir: string;
   updateSnapshots: boolean;
   verbose?: boolean;
-  project?: string;
+  /** Print per-test details like the stabilization steps */
+  verboseTests?: boolean;
+  projects?: string[];
   headed?: boolean;
+  only?: string[];
+  shard?: string;
+  /** Also write a blob report into this directory (for merging shards) */
+  blobDir?: string;
 }
 
 async function runPlaywright(options: PlaywrightRunOptions): Promise<number> {
@@ -139,27 +256,44 @@ async function runPlaywright(options: PlaywrightRunOptions): Promise<number> {
       args.push('--update-snapshots');
     }
 
-    if (options.project) {
-      args.push('--project', options.project);
+    for (const project of options.projects || []) {
+      args.push('--project', project);
     }
 
     if (options.headed) {
       args.push('--headed');
     }
 
+    if (options.shard) {
+      args.push(`--shard=${options.shard}`);
+    }
+
     const env = {
       ...process.env,
       BASE_URL: options.baseURL,
+      VRT_TARGET: options.target,
       VRT_CONFIG: JSON.stringify(options.vrtConfig),
+      VRT_AUTH: JSON.stringify(options.auth),
       OUTPUT_DIR: options.outputDir,
-    };
+      VRT_BLOB_DIR: options.blobDir,
+      VRT_VERBOSE: options.verboseTests ? '1' : undefined,
+    } as Record<string, string | undefined>;
+
+    // The pair list can be too long for an environment variable, pass it as a file
+    if (options.only) {
+      const workspace = new Workspace();
+      workspace.writeJSON('baseline-pairs.json', options.only);
+      env.VRT_ONLY = workspace.getPath('baseline-pairs.json');
+    }
 
     const proc = spawn('bunx', args, {
       env,
       stdio: options.verbose ? 'inherit' : 'pipe',
       shell: true,
       cwd: process.cwd(),
-    });    let stdout = '';
+    });
+
+    let stdout = '';
     let stderr = '';
 
     if (!options.verbose) {
@@ -184,42 +318,92 @@ async function runPlaywright(options: PlaywrightRunOptions): Promise<number> {
     });
 
     proc.on('error', (error) => {
-      reject(new Error(`Failed to run Playwright: ${error.message}`));
+      reject(new PlaywrightError(`Failed to run Playwright: ${error.message}`));
     });
   });
 }
 
-async function parseResults(outputDir: string): Promise<TestResults> {
+/**
+ * Merge the blob reports of all shards into one HTML report and results.json
+ * in `outputDir`, and export the combined results
+ */
+export async function mergeReports(blobDir: string, outputDir: string, config: VRTConfig, verbose?: boolean): Promise<TestResults> {
+  const exitCode = await new Promise<number>((resolve, reject) => {
+    const proc = spawn('bunx', ['playwright', 'merge-reports', '--reporter', 'html,json', blobDir], {
+      env: {
+        ...process.env,
+        PLAYWRIGHT_HTML_OUTPUT_DIR: outputDir,
+        PLAYWRIGHT_HTML_OPEN: 'never',
+        PLAYWRIGHT_JSON_OUTPUT_FILE: path.join(outputDir, 'results.json'),
+      },
+      stdio: verbose ? 'inherit' : 'ignore',
+      shell: true,
+      cwd: process.cwd(),
+    });
+    proc.on('close', (code) => resolve(code || 0));
+    proc.on('error', (error) => reject(new PlaywrightError(`Failed to merge reports: ${error.message}`)));
+  });
+
+  if (exitCode !== 0 || !fs.existsSync(path.join(outputDir, 'results.json'))) {
+    throw new PlaywrightError(`Merging the reports in ${blobDir} failed (exit code ${exitCode})`);
+  }
+
+  const results = await parseResults(outputDir);
+  results.exitCode = results.failed > 0 ? 1 : 0;
+  results.screenshots = exportResults(outputDir, config);
+  return results;
+}
+
+/**
+ * Totals per project from the Playwright JSON report (results.json)
+ */
+export async function parseResults(outputDir: string): Promise<TestResults> {
   const resultsPath = path.join(outputDir, 'results.json');
 
+  let results: any;
   try {
-    const file = Bun.file(resultsPath);
-    const results = await file.json();
-
-    let passed = 0;
-    let failed = 0;
-    let total = 0;
-
-    // Parse Playwright JSON results
-    if (results.suites) {
-      for (const suite of results.suites) {
-        if (suite.specs) {
-          for (const spec of suite.specs) {
-            total++;
-            if (spec.ok) {
-              passed++;
-            } else {
-              failed++;
-            }
+    results = JSON.parse(fs.readFileSync(resultsPath, 'utf-8'));
+  } catch (error) {
+    // Without a report, the run must not look clean
+    throw new PlaywrightError(`Could not read the test results ${resultsPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const totals: TestResults = { passed: 0, failed: 0, total: 0, exitCode: 0, projects: {}, screenshots: [] };
+
+  // Each spec (URL) has one test per project (viewport × browser)
+  const countSpecs = (suite: any) => {
+    for (const spec of suite.specs || []) {
+      for (const test of spec.tests || []) {
+        if (test.status === 'skipped') {
+          continue;
+        }
+
+        const projectName = test.projectName || 'default';
+        const project = totals.projects[projectName] ||= { passed: 0, failed: 0, total: 0 };
+        // Flaky tests passed on retry
+        const ok = test.status === 'expected' || test.status === 'flaky';
+
+        for (const counts of [totals, project]) {
+          counts.total++;
+          if (ok) {
+            counts.passed++;
+          } else {
+            counts.failed++;
           }
         }
       }
     }
 
-    return { passed, failed, total, exitCode: 0 };
-  } catch {
-    return { passed: 0, failed: 0, total: 0, exitCode: 1 };
+    for (const child of suite.suites || []) {
+      countSpecs(child);
+    }
+  };
+
+  for (const suite of results.suites || []) {
+    countSpecs(suite);
   }
+
+  return totals;
 }
 
 export function printResults(results: TestResults, config: VRTConfig): void {
@@ -228,6 +412,15 @@ export function printResults(results: TestResults, config: VRTConfig): void {
   console.log(`   Passed: ${results.passed}`);
   console.log(`   Failed: ${results.failed}`);
 
+  const projectNames = Object.keys(results.projects);
+  if (projectNames.length > 1) {
+    console.log('\n   Per project:');
+    for (const name of projectNames) {
+      const project = results.projects[name];
+      console.log(`   ${name}: ${project.passed}/${project.total} passed`);
+    }
+  }
+
   if (results.failed > 0) {
     console.log(`\n❌ ${results.failed} visual difference(s) detected`);
   } else if (results.total > 0) {
@@ -0,0 +1,238 @@
+#!/usr/bin/env bun
+
+import micromatch from 'micromatch';
+import type { SamplingConfig } from './config.js';
+
+/**
+ * A collected URL with its sitemap metadata (crawled URLs have none)
+ */
+export interface URLCandidate {
+  url: string;
+  priority?: number;
+  lastmod?: string;
+}
+
+/**
+ * How a sample was drawn, stored in urls.json to make it reproducible
+ */
+export interface SamplingRecord {
+  strategy: NonNullable<SamplingConfig['strategy']>;
+  order?: SamplingConfig['order'];
+  seed?: number | string;
+  perGroup?: number;
+  maxUrls: number;
+  /** Number of URLs from the config or a URL file */
+  listed?: number;
+  alwaysInclude?: string[];
+  /** Number of URLs taken per group (template strategy) */
+  groups?: Record<string, number>;
+}
+
+export interface SamplingResult {
+  urls: string[];
+  sampling: SamplingRecord;
+}
+
+const DEFAULT_PER_GROUP = 2;
+const DEFAULT_SEED = 1;
+// Sitemap protocol default for entries without <priority>
+const DEFAULT_PRIORITY = 0.5;
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32) from a numeric or string seed
+ */
+function seededRandom(seed: number | string): () => number {
+  // FNV-1a hash of the seed
+  let state = 2166136261;
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], seed: number | string): T[] {
+  const random = seededRandom(seed);
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function lastmodTime(candidate: URLCandidate): number {
+  const time = candidate.lastmod ? Date.parse(candidate.lastmod) : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+}
+
+/**
+ * Rank candidates; sorting is stable, so ties keep the sitemap order
+ */
+function rank(candidates: URLCandidate[], order: SamplingConfig['order'], seed: number | string): URLCandidate[] {
+  switch (order) {
+    case 'priority':
+      return [...candidates].sort((a, b) => (b.priority ?? DEFAULT_PRIORITY) - (a.priority ?? DEFAULT_PRIORITY));
+    case 'lastmod':
+      return [...candidates].sort((a, b) => lastmodTime(b) - lastmodTime(a));
+    case 'random':
+      return shuffle(candidates, seed);
+    default:
+      return candidates;
+  }
+}
+
+function urlPath(url: string): string {
+  const urlObj = new URL(url);
+  return urlObj.pathname + urlObj.search;
+}
+
+/**
+ * Page template of a path: numeric segments become `:n` and the last segment
+ * of nested paths becomes `*`, e.g. `/news/2024/some-article` -> `/news/:n/*`.
+ * Top-level pages like `/contact` are templates of their own.
+ */
+export function templateOf(url: string): string {
+  const segments = new URL(url).pathname
+    .split('/')
+    .filter(Boolean)
+    .map((segment) => (/^\d+$/.test(segment) ? ':n' : segment));
+
+  if (segments.length >= 2) {
+    segments[segments.length - 1] = '*';
+  }
+
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Take up to `perGroup` URLs of every group, round-robin over the groups
+ * (in order of their first URL) until `limit` is reached
+ */
+function sampleByTemplate(
+  candidates: URLCandidate[],
+  options: SamplingConfig,
+  seed: number | string,
+  limit: number
+): { urls: string[]; groups: Record<string, number> } {
+  const groups = new Map<string, { limit: number; candidates: URLCandidate[] }>();
+  const perGroup = options.perGroup ?? DEFAULT_PER_GROUP;
+
+  for (const candidate of candidates) {
+    const configured = (options.groups || []).find((group) =>
+      micromatch.isMatch(urlPath(candidate.url), group.match, { bash: true })
+    );
+    const name = configured ? configured.name || configured.match.join(',') : templateOf(candidate.url);
+
+    if (!groups.has(name)) {
+      groups.set(name, { limit: configured?.limit ?? perGroup, candidates: [] });
+    }
+    groups.get(name)!.candidates.push(candidate);
+  }
+
+  const queues = Array.from(groups, ([name, group]) => ({
+    name,
+    queue: rank(group.candidates, options.order, seed).slice(0, group.limit),
+  }));
+
+  const urls: string[] = [];
+  const counts: Record<string, number> = {};
+
+  for (let round = 0; urls.length < limit; round++) {
+    const picks = queues.filter((group) => round < group.queue.length);
+    if (picks.length === 0) {
+      break;
+    }
+    for (const group of picks) {
+      if (urls.length >= limit) {
+        break;
+      }
+      urls.push(group.queue[round].url);
+      counts[group.name] = (counts[group.name] || 0) + 1;
+    }
+  }
+
+  return { urls, groups: counts };
+}
+
+/**
+ * Resolve `alwaysInclude` entries: globs (`*`, `{}`, `[]`) select collected URLs,
+ * plain paths (including query strings) are added even if they were not collected
+ */
+function resolveAlwaysInclude(entries: string[], candidates: URLCandidate[], baseUrl: string): string[] {
+  const urls: string[] = [];
+
+  for (const entry of entries) {
+    if (/[*{[]/.test(entry)) {
+      urls.push(...candidates
+        .filter((candidate) => micromatch.isMatch(urlPath(candidate.url), entry, { bash: true }))
+        .map((candidate) => candidate.url));
+    } else {
+      urls.push(new URL(entry, baseUrl).toString());
+    }
+  }
+
+  return Array.from(new Set(urls));
+}
+
+/**
+ * Pick the URLs to test from the (filtered) candidates.
+ * `listed` URLs (from the config or a URL file) are always kept, like `alwaysInclude`.
+ */
+export function sampleURLs(
+  candidates: URLCandidate[],
+  baseUrl: string,
+  options: SamplingConfig = {},
+  maxUrls: number,
+  listed: string[] = []
+): SamplingResult {
+  const strategy = options.strategy || 'first';
+  const seed = options.seed ?? DEFAULT_SEED;
+
+  const included = resolveAlwaysInclude(options.alwaysInclude || [], candidates, baseUrl);
+  const always = Array.from(new Set([...listed, ...included]));
+  const remaining = candidates.filter((candidate) => !always.includes(candidate.url));
+  const limit = Math.max(0, maxUrls - always.length);
+
+  const sampling: SamplingRecord = { strategy, maxUrls };
+  if (listed.length > 0) {
+    sampling.listed = listed.length;
+  }
+  if (included.length > 0) {
+    sampling.alwaysInclude = included;
+  }
+
+  let urls: string[];
+  switch (strategy) {
+    case 'template': {
+      const result = sampleByTemplate(remaining, options, seed, limit);
+      urls = result.urls;
+      Object.assign(sampling, {
+        order: options.order || 'sitemap',
+        perGroup: options.perGroup ?? DEFAULT_PER_GROUP,
+        groups: result.groups,
+      });
+      if (options.order === 'random') {
+        sampling.seed = seed;
+      }
+      break;
+    }
+    case 'random':
+      urls = rank(remaining, 'random', seed).slice(0, limit).map((candidate) => candidate.url);
+      sampling.seed = seed;
+      break;
+    case 'priority':
+    case 'lastmod':
+      urls = rank(remaining, strategy, seed).slice(0, limit).map((candidate) => candidate.url);
+      break;
+    default:
+      urls = remaining.slice(0, limit).map((candidate) => candidate.url);
+  }
+
+  return { urls: [...always, ...urls], sampling };
+}
@@ -0,0 +1,526 @@
+#!/usr/bin/env bun
+
+/**
+ * JSON Schema subset used for the config schema and its validator
+ */
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | Array<'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'>;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+  pattern?: string;
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  default?: unknown;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationResult {
+  errors: SchemaIssue[];
+  warnings: SchemaIssue[];
+}
+
+const stringList = (description: string, minItems?: number): JSONSchema => ({
+  description,
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  ...(minItems ? { minItems } : {}),
+});
+
+const threshold: JSONSchema = {
+  type: 'object',
+  properties: {
+    maxDiffPixels: { description: 'Maximum number of different pixels', type: 'integer', minimum: 0 },
+    maxDiffPixelRatio: { description: 'Maximum ratio of different pixels (0-1)', type: 'number', minimum: 0, maximum: 1 },
+  },
+  additionalProperties: false,
+};
+
+const secret = (label: string): Record<string, JSONSchema> => ({
+  username: { description: `${label} username`, type: 'string' },
+  password: { description: `${label} password`, type: 'string' },
+  usernameEnv: { description: `Environment variable holding the ${label} username`, type: 'string', minLength: 1 },
+  passwordEnv: { description: `Environment variable holding the ${label} password`, type: 'string', minLength: 1 },
+});
+
+const auth: JSONSchema = {
+  type: 'object',
+  properties: {
+    httpCredentials: {
+      description: 'HTTP basic auth credentials',
+      type: 'object',
+      properties: secret('Basic auth'),
+      additionalProperties: false,
+    },
+    headers: {
+      description: 'Extra HTTP headers sent with every request',
+      type: 'object',
+      additionalProperties: { type: 'string' },
+    },
+    cookies: {
+      description: 'Cookies set before loading pages',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          value: { type: 'string' },
+          domain: { type: 'string' },
+          path: { type: 'string' },
+        },
+        required: ['name', 'value'],
+        additionalProperties: false,
+      },
+    },
+    storageState: { description: 'Path to a Playwright storage state file', type: 'string', minLength: 1 },
+    login: {
+      description: 'Scripted form login',
+      type: 'object',
+      properties: {
+        url: { description: 'Login page URL or path', type: 'string', minLength: 1 },
+        usernameSelector: { type: 'string', minLength: 1 },
+        passwordSelector: { type: 'string', minLength: 1 },
+        submitSelector: { type: 'string', minLength: 1 },
+        successSelector: { type: 'string', minLength: 1 },
+        waitForURL: { type: 'string', minLength: 1 },
+        ...secret('Login'),
+      },
+      required: ['url', 'usernameSelector', 'passwordSelector'],
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Schema of playwright-vrt config files (also published as playwright-vrt.schema.json)
+ */
+export const CONFIG_SCHEMA: JSONSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://unpkg.com/@iqual/playwright-vrt/playwright-vrt.schema.json',
+  title: 'Playwright VRT config',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    extends: {
+      description: 'Base config file(s) to extend, relative to this file',
+      type: ['string', 'array'],
+      items: { type: 'string', minLength: 1 },
+    },
+    referenceUrl: { description: 'URL of the reference system (baseline)', type: 'string', minLength: 1 },
+    testUrl: { description: 'URL of the system under test', type: 'string', minLength: 1 },
+    sitemapPath: { description: 'Sitemap path relative to referenceUrl', type: 'string', default: '/sitemap.xml' },
+    sitemaps: stringList('Sitemap paths or URLs (replaces sitemapPath)'),
+    sitemapOptions: {
+      description: 'Sitemap expansion',
+      type: 'object',
+      properties: {
+        alternates: { description: 'Add the hreflang alternates of sitemap entries', type: 'boolean', default: false },
+        languages: stringList('Only keep URLs in these languages (hreflang)'),
+      },
+      additionalProperties: false,
+    },
+    urls: stringList('URLs or paths to test; sitemaps are only used in addition if "sitemaps" is set'),
+    maxUrls: { description: 'Maximum number of URLs to test', type: 'integer', minimum: 1, default: 25 },
+    exclude: stringList('Path glob patterns to exclude'),
+    include: stringList('Path glob patterns to include'),
+    sampling: {
+      description: 'How maxUrls URLs are picked from the collected URLs',
+      type: 'object',
+      properties: {
+        strategy: {
+          description: 'first: sitemap order, template: N per page template, priority/lastmod: sitemap ranking, random: seeded sample',
+          type: 'string',
+          enum: ['first', 'template', 'priority', 'lastmod', 'random'],
+          default: 'first',
+        },
+        order: { description: 'template: order within a group', type: 'string', enum: ['sitemap', 'priority', 'lastmod', 'random'], default: 'sitemap' },
+        perGroup: { description: 'template: URLs per group', type: 'integer', minimum: 1, default: 2 },
+        groups: {
+          description: 'template: explicit groups by path pattern',
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', minLength: 1 },
+              match: stringList('Path glob patterns', 1),
+              limit: { type: 'integer', minimum: 1 },
+            },
+            required: ['match'],
+            additionalProperties: false,
+          },
+        },
+        seed: { description: 'Seed for random sampling', type: ['integer', 'string'], default: 1 },
+        alwaysInclude: stringList('Paths (or path globs) that are always tested'),
+      },
+      additionalProperties: false,
+    },
+    crawlOptions: {
+      description: 'Crawler settings (used if no sitemap is found)',
+      type: 'object',
+      properties: {
+        maxDepth: { description: 'Number of link levels to follow', type: 'integer', minimum: 0, default: 1 },
+        maxPages: { description: 'Maximum number of pages to collect', type: 'integer', minimum: 1, default: 200 },
+        concurrency: { description: 'Number of pages loaded in parallel', type: 'integer', minimum: 1, default: 4 },
+        respectRobotsTxt: { type: 'boolean', default: true },
+        respectNofollow: { type: 'boolean', default: true },
+        removeTrailingSlash: { type: 'boolean', default: true },
+      },
+      additionalProperties: false,
+    },
+    pathRewrites: {
+      description: 'Map reference paths to the test environment (first matching rule)',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          from: { description: 'Path prefix, or a regular expression with type "regex"', type: 'string', minLength: 1 },
+          to: { description: 'Replacement; regex rules can use $1, $2, ...', type: 'string' },
+          type: { type: 'string', enum: ['prefix', 'regex'], default: 'prefix' },
+        },
+        required: ['from', 'to'],
+        additionalProperties: false,
+      },
+    },
+    viewports: {
+      description: 'Viewports to test',
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          width: { type: 'integer', minimum: 1 },
+          height: { type: 'integer', minimum: 1 },
+        },
+        required: ['name', 'width', 'height'],
+        additionalProperties: false,
+      },
+    },
+    browsers: {
+      description: 'Browsers to test every viewport in',
+      type: 'array',
+      minItems: 1,
+      items: { type: 'string', enum: ['chromium', 'firefox', 'webkit'] },
+    },
+    workers: {
+      description: 'Parallel browsers: a number or a percentage of the CPU cores, e.g. "50%"',
+      type: ['integer', 'string'],
+      minimum: 1,
+      pattern: '^\\d+%$',
+      default: 3,
+    },
+    retries: { description: 'Retries of failed tests (default: 2 on CI, 1 otherwise)', type: 'integer', minimum: 0 },
+    threshold: { ...threshold, description: 'Allowed difference per screenshot' },
+    comparison: {
+      description: 'Comparison algorithm of the test pass and failure rules by changed region',
+      type: 'object',
+      properties: {
+        algorithm: { description: 'exact: every changed pixel, antialiasing: ignores anti-aliasing and small color changes, ssim: ignores structurally similar blocks', type: 'string', enum: ['exact', 'antialiasing', 'ssim'], default: 'antialiasing' },
+        threshold: { description: 'antialiasing: color difference that counts as a change', type: 'number', minimum: 0, maximum: 1, default: 0.1 },
+        minSSIM: { description: 'ssim: 8×8 blocks at least this similar count as unchanged', type: 'number', minimum: 0, maximum: 1, default: 0.98 },
+        cellSize: { description: 'Changed pixels in neighbouring cells of this size form one region', type: 'integer', minimum: 1, default: 16 },
+        maxRegions: { description: 'Fail if there are more changed regions', type: 'integer', minimum: 0 },
+        maxRegionPixels: { description: 'Fail if a region has more changed pixels', type: 'integer', minimum: 0 },
+        maxRegionWidth: { description: 'Fail if a region is wider (px)', type: 'integer', minimum: 0 },
+        maxRegionHeight: { description: 'Fail if a region is higher (px)', type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    mask: stringList('Selectors masked in all screenshots'),
+    maskColor: { description: 'CSS color of masked areas', type: 'string' },
+    hide: stringList('Selectors hidden in all screenshots'),
+    overrides: {
+      description: 'Additional mask/hide selectors per URL pattern',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          match: stringList('Path glob patterns', 1),
+          mask: stringList('Selectors to mask'),
+          hide: stringList('Selectors to hide'),
+        },
+        required: ['match'],
+        additionalProperties: false,
+      },
+    },
+    har: {
+      description: 'Record the reference pass per URL (playwright-snapshots/har/) and replay it when regenerating baselines',
+      type: 'object',
+      properties: {
+        notFound: { description: 'Requests missing from a recording: abort them or go to the network', type: 'string', enum: ['abort', 'fallback'], default: 'abort' },
+        maxAgeHours: { description: 'Record again if a recording is older than this', type: 'number', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    hooks: stringList('JS/TS modules exporting beforeNavigate, afterLoad and beforeScreenshot (relative to the working directory)'),
+    stabilization: {
+      description: 'Wait for lazy content, images, fonts and a stable layout after loading (false: only fonts)',
+      type: ['object', 'boolean'],
+      properties: {
+        scroll: { description: 'Scroll through the page to trigger lazy loading', type: 'boolean', default: true },
+        scrollDelay: { description: 'Wait after each scrolled screen (ms)', type: 'integer', minimum: 0, default: 100 },
+        images: { description: 'Wait until all images are decoded', type: 'boolean', default: true },
+        fonts: { description: 'Wait until web fonts are loaded', type: 'boolean', default: true },
+        stableFor: { description: 'Wait until page height and DOM are unchanged for this long (ms, 0 to skip)', type: 'integer', minimum: 0, default: 500 },
+        timeout: { description: 'Maximum time of all steps together (ms)', type: 'integer', minimum: 0, default: 10000 },
+      },
+      additionalProperties: false,
+    },
+    contentDiff: {
+      description: 'Capture accessibility tree and visible text with every screenshot and diff them when it differs',
+      type: 'boolean',
+      default: true,
+    },
+    calibration: {
+      description: 'Mask regions that change between identical loads (detected while creating the baseline)',
+      type: 'object',
+      properties: {
+        runs: { description: 'Screenshots per page, including the first load', type: 'integer', minimum: 2, default: 3 },
+        padding: { description: 'Pixels added around every changed region', type: 'integer', minimum: 0, default: 4 },
+        maxArea: { description: 'Mask nothing if the regions cover more than this ratio of the page', type: 'number', minimum: 0, maximum: 1, default: 0.5 },
+      },
+      additionalProperties: false,
+    },
+    determinism: {
+      description: 'Frozen clock, seeded randomness and third-party blocking (baseline and test pass)',
+      type: 'object',
+      properties: {
+        freezeTime: { description: 'Freeze Date at this time (ISO date string or epoch milliseconds)', type: ['string', 'integer'] },
+        randomSeed: { description: 'Seed for Math.random', type: ['integer', 'string'] },
+        block: stringList('Domains whose requests are aborted (subdomains included)'),
+        stub: stringList('Domains whose requests get an empty response (subdomains included)'),
+      },
+      additionalProperties: false,
+    },
+    scenarios: {
+      description: 'Actions to run on matching pages before additional screenshots',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          match: stringList('Path glob patterns', 1),
+          fullPage: { type: 'boolean', default: true },
+          steps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                action: {
+                  type: 'string',
+                  enum: ['click', 'hover', 'fill', 'press', 'scrollTo', 'waitForSelector', 'waitForRequest', 'wait', 'screenshot'],
+                },
+                selector: { type: 'string', minLength: 1 },
+                value: { type: 'string' },
+                key: { type: 'string', minLength: 1 },
+                url: { type: 'string', minLength: 1 },
+                name: { type: 'string', minLength: 1 },
+                state: { type: 'string', enum: ['attached', 'detached', 'visible', 'hidden'] },
+                y: { type: 'number', minimum: 0 },
+                ms: { type: 'integer', minimum: 0 },
+                timeout: { type: 'integer', minimum: 0 },
+              },
+              required: ['action'],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ['name', 'match', 'steps'],
+        additionalProperties: false,
+      },
+    },
+    components: {
+      description: 'Elements captured as separate screenshots',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          selector: { type: 'string', minLength: 1 },
+          match: stringList('Path glob patterns'),
+          maxElements: { description: 'Number of matching elements captured, starting with the first', type: 'integer', minimum: 1, default: 1 },
+          threshold,
+        },
+        required: ['name', 'selector'],
+        additionalProperties: false,
+      },
+    },
+    auth: {
+      description: 'Authentication per environment',
+      type: 'object',
+      properties: {
+        reference: auth,
+        test: auth,
+      },
+      additionalProperties: false,
+    },
+    storage: {
+      description: 'Shared baseline storage, keyed by branch and config hash',
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['filesystem', 's3'] },
+        path: { description: 'filesystem: directory holding the baselines', type: 'string', minLength: 1 },
+        format: { description: 'filesystem: archives or plain directories', type: 'string', enum: ['tar', 'directory'], default: 'tar' },
+        bucket: { description: 's3: bucket name', type: 'string', minLength: 1 },
+        prefix: { description: 's3: key prefix', type: 'string' },
+        endpoint: { description: 's3: endpoint of S3-compatible services (e.g. MinIO)', type: 'string', minLength: 1 },
+        region: { type: 'string', minLength: 1 },
+        accessKeyIdEnv: { description: 'Environment variable holding the access key ID', type: 'string', minLength: 1 },
+        secretAccessKeyEnv: { description: 'Environment variable holding the secret access key', type: 'string', minLength: 1 },
+        branch: { description: 'Branch to store the baseline under (default: from CI variables or git)', type: 'string', minLength: 1 },
+        fallbackBranch: { description: 'Branch used if the current branch has no baseline', type: 'string', minLength: 1, default: 'main' },
+      },
+      required: ['type'],
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'null';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Closest known key for an unknown one (for "did you mean" hints)
+ */
+function suggestKey(key: string, known: string[]): string | undefined {
+  const distance = (a: string, b: string): number => {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      let previous = row[0];
+      row[0] = i;
+      for (let j = 1; j <= b.length; j++) {
+        const current = row[j];
+        row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+        previous = current;
+      }
+    }
+    return row[b.length];
+  };
+
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of known) {
+    const d = distance(key.toLowerCase(), candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+/**
+ * Validate a value against the schema.
+ * Unknown object keys are reported as warnings, everything else as errors.
+ */
+export function validateSchema(value: unknown, schema: JSONSchema = CONFIG_SCHEMA, path = ''): SchemaValidationResult {
+  const result: SchemaValidationResult = { errors: [], warnings: [] };
+  const at = path || '(root)';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      result.errors.push({ path: at, message: `expected ${types.join(' or ')}, got ${typeOf(value)}` });
+      return result;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    result.errors.push({ path: at, message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value)}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      result.errors.push({ path: at, message: `must be >= ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      result.errors.push({ path: at, message: `must be <= ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      result.errors.push({ path: at, message: 'must not be empty' });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      result.errors.push({ path: at, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      result.errors.push({ path: at, message: `must contain at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        const nested = validateSchema(item, schema.items, `${path}[${index}]`);
+        result.errors.push(...nested.errors);
+        result.warnings.push(...nested.warnings);
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        result.errors.push({ path: path ? `${path}.${key}` : key, message: 'is required' });
+      }
+    }
+
+    for (const [key, item] of Object.entries(object)) {
+      const keyPath = path ? `${path}.${key}` : key;
+      let propertySchema = properties[key];
+
+      if (!propertySchema) {
+        if (typeof schema.additionalProperties === 'object') {
+          propertySchema = schema.additionalProperties;
+        } else if (schema.additionalProperties === false) {
+          const suggestion = suggestKey(key, Object.keys(properties));
+          result.warnings.push({
+            path: keyPath,
+            message: `unknown key${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`,
+          });
+          continue;
+        } else {
+          continue;
+        }
+      }
+
+      if (item === undefined) {
+        continue;
+      }
+
+      const nested = validateSchema(item, propertySchema, keyPath);
+      result.errors.push(...nested.errors);
+      result.warnings.push(...nested.warnings);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,183 @@
+#!/usr/bin/env bun
+
+import { gunzipSync } from 'zlib';
+import type { URLCandidate } from './sampling.js';
+
+/**
+ * A sitemap <url> entry with its hreflang alternates
+ */
+export interface SitemapEntry extends URLCandidate {
+  /** Language of the entry itself (from its self-referencing alternate) */
+  language?: string;
+  alternates: Array<{ hreflang: string; href: string }>;
+}
+
+export interface ParsedSitemap {
+  /** Child sitemaps of a sitemap index */
+  sitemaps: string[];
+  entries: SitemapEntry[];
+}
+
+export interface SitemapFetchOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+  /** Maximum nesting of sitemap indexes */
+  maxDepth?: number;
+}
+
+const DEFAULT_TIMEOUT = 15000;
+const DEFAULT_MAX_DEPTH = 3;
+
+function decodeXML(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Elements with the given local name (namespace prefixes are ignored)
+ */
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+function elementText(xml: string, name: string): string | undefined {
+  const [content] = elements(xml, name);
+  return content !== undefined ? decodeXML(content) : undefined;
+}
+
+function attributes(tag: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    result[match[1].toLowerCase()] = decodeXML(match[2] ?? match[3]);
+  }
+  return result;
+}
+
+/**
+ * Parse a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const sitemaps = elements(xml, 'sitemap')
+    .map((block) => elementText(block, 'loc'))
+    .filter((loc): loc is string => !!loc);
+
+  const entries = elements(xml, 'url').flatMap((block): SitemapEntry[] => {
+    const loc = elementText(block, 'loc');
+    if (!loc) {
+      return [];
+    }
+
+    const priority = parseFloat(elementText(block, 'priority') ?? '');
+    const alternates = Array.from(block.matchAll(/<(?:[\w.-]+:)?link\b([^>]*)>/g), (match) => attributes(match[1]))
+      .filter((attrs) => attrs.rel === 'alternate' && attrs.hreflang && attrs.href)
+      .map((attrs) => ({ hreflang: attrs.hreflang, href: attrs.href }));
+
+    return [{
+      url: loc,
+      priority: Number.isNaN(priority) ? undefined : priority,
+      lastmod: elementText(block, 'lastmod'),
+      language: alternates.find((alternate) => alternate.href === loc)?.hreflang,
+      alternates,
+    }];
+  });
+
+  return { sitemaps, entries };
+}
+
+async function fetchXML(url: string, options: SitemapFetchOptions): Promise<string> {
+  const response = await fetch(url, {
+    headers: options.headers,
+    signal: AbortSignal.timeout(options.timeout ?? DEFAULT_TIMEOUT),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+
+  // Gzipped sitemap files (not transfer-encoded) start with the gzip magic bytes
+  const body = Buffer.from(await response.arrayBuffer());
+  const content = body[0] === 0x1f && body[1] === 0x8b ? gunzipSync(body) : body;
+  return content.toString('utf-8');
+}
+
+/**
+ * Fetch a sitemap and expand sitemap indexes (also gzipped sitemaps).
+ * Failing child sitemaps are skipped with a warning.
+ */
+export async function fetchSitemap(url: string, options: SitemapFetchOptions = {}): Promise<SitemapEntry[]> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const visited = new Set<string>();
+
+  const visit = async (sitemapUrl: string, depth: number): Promise<SitemapEntry[]> => {
+    if (visited.has(sitemapUrl)) {
+      return [];
+    }
+    visited.add(sitemapUrl);
+
+    const parsed = parseSitemap(await fetchXML(sitemapUrl, options));
+    const entries = [...parsed.entries];
+
+    for (const child of parsed.sitemaps) {
+      if (depth >= maxDepth) {
+        console.warn(`⚠️ Sitemap index nested too deeply, skipping ${child}`);
+        continue;
+      }
+      try {
+        entries.push(...await visit(new URL(child, sitemapUrl).toString(), depth + 1));
+      } catch (error) {
+        console.warn(`⚠️ Sitemap ${child} failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return entries;
+  };
+
+  return visit(url, 0);
+}
+
+/**
+ * Check if a hreflang matches one of the languages (`de` also matches `de-CH`)
+ */
+export function matchesLanguage(hreflang: string, languages: string[]): boolean {
+  const value = hreflang.toLowerCase();
+  return languages.some((language) => {
+    const wanted = language.toLowerCase();
+    return value === wanted || value.startsWith(`${wanted}-`);
+  });
+}
+
+/**
+ * Turn sitemap entries into URL candidates, optionally adding their hreflang
+ * alternates and keeping only the given languages. Entries without a known
+ * language are kept.
+ */
+export function expandAlternates(
+  entries: SitemapEntry[],
+  options: { alternates?: boolean; languages?: string[] } = {}
+): URLCandidate[] {
+  const languages = options.languages || [];
+  const keep = (language?: string) => !language || languages.length === 0 || matchesLanguage(language, languages);
+  const candidates: URLCandidate[] = [];
+
+  for (const entry of entries) {
+    if (keep(entry.language)) {
+      candidates.push({ url: entry.url, priority: entry.priority, lastmod: entry.lastmod });
+    }
+
+    if (options.alternates) {
+      for (const alternate of entry.alternates) {
+        if (alternate.href !== entry.url && alternate.hreflang !== 'x-default' && keep(alternate.hreflang)) {
+          candidates.push({ url: alternate.href, priority: entry.priority, lastmod: entry.lastmod });
+        }
+      }
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,303 @@
+#!/usr/bin/env bun
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { baselineSettings, computeConfigHash, readCacheManifest } from './cache.js';
+import { StorageError } from './errors.js';
+import type { StorageConfig, VRTConfig } from './config.js';
+
+/**
+ * Remote location of baseline snapshots (the whole playwright-snapshots/ directory)
+ */
+export interface BaselineStorage {
+  readonly description: string;
+  /** Download the baseline stored under `key` into `targetDir`; false if there is none */
+  pull(key: string, targetDir: string): Promise<boolean>;
+  /** Upload `sourceDir` as the baseline under `key` */
+  push(key: string, sourceDir: string): Promise<void>;
+}
+
+export interface PullResult {
+  key: string;
+  branch: string;
+  fallback: boolean;
+  /** The local baseline was kept, as it has approvals that are not in the stored one */
+  keptLocal: boolean;
+}
+
+const DEFAULT_FALLBACK_BRANCH = 'main';
+
+/**
+ * Hash of the settings that affect the baseline images (the same list as the
+ * cache manifest uses), so every preview environment shares the baseline of its branch
+ */
+export function computeBaselineHash(config: VRTConfig): string {
+  return computeConfigHash(baselineSettings(config)).slice(0, 16);
+}
+
+/**
+ * Branch name from the config, CI environment variables or git
+ */
+export function detectBranch(storage: StorageConfig): string {
+  const fromEnv = storage.branch ||
+    process.env.VRT_BRANCH ||
+    process.env.GITHUB_HEAD_REF ||
+    process.env.GITHUB_REF_NAME ||
+    process.env.CI_COMMIT_REF_NAME ||
+    process.env.BRANCH_NAME;
+  if (fromEnv) {
+    return fromEnv;
+  }
+
+  const git = spawnSync('git', ['rev-parse', '--abbrev-ref', 'HEAD'], { encoding: 'utf-8' });
+  const branch = git.status === 0 ? git.stdout.trim() : '';
+  return branch && branch !== 'HEAD' ? branch : storage.fallbackBranch || DEFAULT_FALLBACK_BRANCH;
+}
+
+/**
+ * Storage key of a baseline: `<branch>/<baseline hash>`
+ */
+export function baselineKey(branch: string, config: VRTConfig): string {
+  const safeBranch = branch.replace(/[^A-Za-z0-9._-]+/g, '-');
+  return `${safeBranch}/${computeBaselineHash(config)}`;
+}
+
+function runTar(args: string[]): void {
+  const result = spawnSync('tar', args, { encoding: 'utf-8' });
+  if (result.status !== 0) {
+    throw new StorageError(`tar ${args[0]} failed: ${result.stderr || result.error?.message}`);
+  }
+}
+
+/**
+ * Replace the contents of `targetDir` with the archive
+ */
+function extractArchive(archivePath: string, targetDir: string): void {
+  fs.rmSync(targetDir, { recursive: true, force: true });
+  fs.mkdirSync(targetDir, { recursive: true });
+  runTar(['-xzf', archivePath, '-C', targetDir]);
+}
+
+function createArchive(sourceDir: string, archivePath: string): void {
+  fs.mkdirSync(path.dirname(archivePath), { recursive: true });
+  runTar(['-czf', archivePath, '-C', sourceDir, '.']);
+}
+
+function tempArchivePath(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'playwright-vrt-')), 'baseline.tar.gz');
+}
+
+/**
+ * Baselines in a local or mounted directory, as .tar.gz archives or plain directories
+ */
+export function createFilesystemStorage(options: StorageConfig): BaselineStorage {
+  const root = path.resolve(options.path || '.playwright-vrt/baselines');
+  const format = options.format || 'tar';
+
+  return {
+    description: `${root} (${format})`,
+
+    async pull(key, targetDir) {
+      if (format === 'directory') {
+        const source = path.join(root, key);
+        if (!fs.existsSync(source)) {
+          return false;
+        }
+        fs.rmSync(targetDir, { recursive: true, force: true });
+        fs.cpSync(source, targetDir, { recursive: true });
+        return true;
+      }
+
+      const archivePath = path.join(root, `${key}.tar.gz`);
+      if (!fs.existsSync(archivePath)) {
+        return false;
+      }
+      extractArchive(archivePath, targetDir);
+      return true;
+    },
+
+    async push(key, sourceDir) {
+      if (format === 'directory') {
+        const target = path.join(root, key);
+        fs.rmSync(target, { recursive: true, force: true });
+        fs.cpSync(sourceDir, target, { recursive: true });
+        return;
+      }
+
+      // Write next to the target first, so readers never see a partial archive
+      const archivePath = path.join(root, `${key}.tar.gz`);
+      createArchive(sourceDir, `${archivePath}.tmp`);
+      fs.renameSync(`${archivePath}.tmp`, archivePath);
+    },
+  };
+}
+
+/**
+ * Baselines as .tar.gz objects in an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+ */
+export function createS3Storage(options: StorageConfig): BaselineStorage {
+  if (!options.bucket) {
+    throw new StorageError('storage.bucket is required for S3 storage');
+  }
+
+  const readEnv = (name?: string) => {
+    if (!name) {
+      return undefined;
+    }
+    const value = process.env[name];
+    if (!value) {
+      throw new StorageError(`Environment variable ${name} is not set (storage)`);
+    }
+    return value;
+  };
+
+  const credentials = {
+    accessKeyId: readEnv(options.accessKeyIdEnv),
+    secretAccessKey: readEnv(options.secretAccessKeyEnv),
+  };
+
+  // Bun's S3 client, loaded on first use so that other storage types also work under Node
+  let client: Promise<import('bun').S3Client> | undefined;
+  const getClient = () => client ||= import('bun')
+    .catch(() => {
+      throw new StorageError('S3 storage requires the Bun runtime (run playwright-vrt with bunx or bun)');
+    })
+    // Without explicit variables, Bun reads S3_*/AWS_* credentials from the environment
+    .then(({ S3Client }) => new S3Client({
+      bucket: options.bucket,
+      endpoint: options.endpoint,
+      region: options.region,
+      ...credentials,
+    }));
+  const prefix = options.prefix ? `${options.prefix.replace(/\/+$/, '')}/` : '';
+  const objectKey = (key: string) => `${prefix}${key}.tar.gz`;
+
+  const request = async <T>(action: string, key: string, fn: () => Promise<T>): Promise<T> => {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      const code = error instanceof Error && 'code' in error ? error.code : undefined;
+      const reason = code ? `${code}: ${message}` : message;
+      throw new StorageError(`S3 ${action} of ${objectKey(key)} failed (${reason})`);
+    }
+  };
+
+  return {
+    description: `s3://${options.bucket}/${prefix}${options.endpoint ? ` (${options.endpoint})` : ''}`,
+
+    async pull(key, targetDir) {
+      const object = (await getClient()).file(objectKey(key));
+      if (!(await request('lookup', key, () => object.exists()))) {
+        return false;
+      }
+
+      const archivePath = tempArchivePath();
+      try {
+        await Bun.write(archivePath, await request('download', key, () => object.arrayBuffer()));
+        extractArchive(archivePath, targetDir);
+      } finally {
+        fs.rmSync(path.dirname(archivePath), { recursive: true, force: true });
+      }
+      return true;
+    },
+
+    async push(key, sourceDir) {
+      const archivePath = tempArchivePath();
+      try {
+        createArchive(sourceDir, archivePath);
+        const s3 = await getClient();
+        await request('upload', key, () => s3.write(objectKey(key), Bun.file(archivePath), { type: 'application/gzip' }));
+      } finally {
+        fs.rmSync(path.dirname(archivePath), { recursive: true, force: true });
+      }
+    },
+  };
+}
+
+/**
+ * Create the configured storage backend
+ */
+export function createStorage(options: StorageConfig): BaselineStorage {
+  switch (options.type) {
+    case 'filesystem':
+      return createFilesystemStorage(options);
+    case 's3':
+      return createS3Storage(options);
+    default:
+      throw new Error(`Unknown storage type "${(options as StorageConfig).type}"`);
+  }
+}
+
+/**
+ * Download the baseline of the current branch, falling back to the main branch.
+ * Returns undefined if neither exists.
+ */
+export async function pullBaseline(config: VRTConfig, snapshotDir: string): Promise<PullResult | undefined> {
+  if (!config.storage) {
+    return undefined;
+  }
+
+  const storage = createStorage(config.storage);
+  const branch = detectBranch(config.storage);
+  const fallbackBranch = config.storage.fallbackBranch || DEFAULT_FALLBACK_BRANCH;
+  const branches = branch === fallbackBranch ? [branch] : [branch, fallbackBranch];
+
+  // Download next to the local baseline, so it can be kept if needed
+  const downloadDir = fs.mkdtempSync(path.join(path.dirname(snapshotDir), '.playwright-vrt-pull-'));
+  try {
+    for (const candidate of branches) {
+      const key = baselineKey(candidate, config);
+      if (!(await storage.pull(key, downloadDir))) {
+        continue;
+      }
+
+      const result = { key, branch: candidate, fallback: candidate !== branch };
+      if (hasUnpushedApprovals(snapshotDir, downloadDir)) {
+        return { ...result, keptLocal: true };
+      }
+      fs.rmSync(snapshotDir, { recursive: true, force: true });
+      fs.renameSync(downloadDir, snapshotDir);
+      return { ...result, keptLocal: false };
+    }
+  } finally {
+    fs.rmSync(downloadDir, { recursive: true, force: true });
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if the local baseline was approved after the stored one was pushed
+ */
+function hasUnpushedApprovals(localDir: string, storedDir: string): boolean {
+  const lastApproval = readCacheManifest(localDir)?.approvals?.at(-1)?.timestamp;
+  const stored = readCacheManifest(storedDir);
+  return !!lastApproval && (!stored || lastApproval > stored.timestamp);
+}
+
+/**
+ * Upload the local baseline under the current branch
+ */
+export async function pushBaseline(config: VRTConfig, snapshotDir: string): Promise<string | undefined> {
+  if (!config.storage) {
+    return undefined;
+  }
+  if (!fs.existsSync(snapshotDir)) {
+    throw new StorageError(`No baseline to push at ${snapshotDir}`);
+  }
+
+  const storage = createStorage(config.storage);
+  const key = baselineKey(detectBranch(config.storage), config);
+  await storage.push(key, snapshotDir);
+  return key;
+}
+
+/**
+ * Human-readable storage location (for logs)
+ */
+export function describeStorage(options: StorageConfig): string {
+  return createStorage(options).description;
+}
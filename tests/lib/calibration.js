@@ -0,0 +1,92 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { decodePNG, changeCounts, findRegions } from './image.js';
+
+/**
+ * Noise calibration (`calibration` in the config): the baseline pass takes
+ * several screenshots of a page, reloading it in between, and stores the
+ * regions that changed as automatic masks next to the baseline image.
+ */
+
+const DEFAULT_RUNS = 3;
+const DEFAULT_PADDING = 4;
+const DEFAULT_MAX_AREA = 0.5;
+
+/**
+ * Automatic masks of a baseline image: `page.png` -> `page.automask.json`
+ */
+export function autoMaskPath(baselinePath) {
+  return baselinePath.replace(/\.png$/, '.automask.json');
+}
+
+/**
+ * Take `runs` screenshots with `capture(run)` and find the regions that differ.
+ * If the regions cover more than `maxArea` of the page, nothing is masked.
+ */
+export async function calibrate(capture, options = {}) {
+  const runs = Math.max(2, options.runs ?? DEFAULT_RUNS);
+  const images = [];
+  for (let run = 0; run < runs; run++) {
+    images.push(decodePNG(await capture(run)));
+  }
+
+  const { width, height, counts } = changeCounts(images);
+  const regions = findRegions(counts, width, height, { padding: options.padding ?? DEFAULT_PADDING })
+    .map((region) => ({
+      x: region.x,
+      y: region.y,
+      width: region.width,
+      height: region.height,
+      reason: `${region.pixels} pixel(s) changed in ${region.max} of ${runs - 1} reload(s)`,
+    }));
+
+  const result = { generatedAt: new Date().toISOString(), runs, width, height, regions };
+
+  const area = regions.reduce((sum, region) => sum + region.width * region.height, 0) / (width * height || 1);
+  if (area > (options.maxArea ?? DEFAULT_MAX_AREA)) {
+    result.regions = [];
+    result.skipped = `${Math.round(area * 100)}% of the page changed between reloads, not masked`;
+  }
+
+  return result;
+}
+
+export function saveAutoMask(filePath, calibration) {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(calibration, null, 2), 'utf-8');
+}
+
+export function loadAutoMask(filePath) {
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Cover the regions with overlays in the mask color (page coordinates, as in
+ * full-page screenshots). Baseline and test screenshot get the same overlays.
+ */
+export async function applyAutoMask(page, regions, color = '#FF00FF') {
+  await page.evaluate(({ regions, color }) => {
+    for (const region of regions) {
+      const overlay = document.createElement('div');
+      overlay.setAttribute('data-vrt-automask', '');
+      Object.assign(overlay.style, {
+        position: 'absolute',
+        left: `${region.x}px`,
+        top: `${region.y}px`,
+        width: `${region.width}px`,
+        height: `${region.height}px`,
+        background: color,
+        zIndex: '2147483647',
+        pointerEvents: 'none',
+      });
+      document.documentElement.appendChild(overlay);
+    }
+  }, { regions, color });
+}
@@ -0,0 +1,333 @@
+import { decodePNG, encodePNG, findRegions } from './image.js';
+
+/**
+ * Screenshot comparison with a selectable algorithm (`comparison` in the config),
+ * used by the test pass instead of Playwright's comparison:
+ *
+ * - `exact`: every pixel whose color differs counts
+ * - `antialiasing`: color differences below `threshold` and anti-aliased
+ *   edges (as detected by pixelmatch) are ignored
+ * - `ssim`: 8×8 blocks that are structurally similar (SSIM >= `minSSIM`) are ignored
+ *
+ * Changed pixels are grouped into regions; region rules (`maxRegions`,
+ * `maxRegionPixels`, `maxRegionWidth`, `maxRegionHeight`) replace the global
+ * `maxDiffPixels`/`maxDiffPixelRatio` budget if set.
+ */
+
+const DEFAULT_THRESHOLD = 0.1;
+const DEFAULT_MIN_SSIM = 0.98;
+const DEFAULT_CELL_SIZE = 16;
+const SSIM_BLOCK = 8;
+
+/** Largest YIQ color difference (black vs. white) */
+const MAX_YIQ_DELTA = 35215;
+
+/**
+ * Compare two PNG buffers. Returns the changed pixel count, the regions and a
+ * diff image (changes in red on a faded copy of the baseline). Images of
+ * different size are compared on the larger size; missing pixels count as changed.
+ */
+export function compareImages(expectedBuffer, actualBuffer, options = {}) {
+  const algorithm = options.algorithm ?? 'antialiasing';
+  let expected = decodePNG(expectedBuffer);
+  let actual = decodePNG(actualBuffer);
+  const sizeMismatch = expected.width !== actual.width || expected.height !== actual.height;
+  const width = Math.max(expected.width, actual.width);
+  const height = Math.max(expected.height, actual.height);
+  if (sizeMismatch) {
+    expected = resize(expected, width, height);
+    actual = resize(actual, width, height);
+  }
+
+  let changed;
+  if (algorithm === 'exact') {
+    changed = exactChanges(expected.data, actual.data, width, height);
+  } else if (algorithm === 'antialiasing') {
+    changed = tolerantChanges(expected, actual, options.threshold ?? DEFAULT_THRESHOLD);
+  } else if (algorithm === 'ssim') {
+    changed = ssimChanges(expected, actual, options.minSSIM ?? DEFAULT_MIN_SSIM);
+  } else {
+    throw new Error(`Unknown comparison algorithm "${algorithm}"`);
+  }
+
+  const diffPixels = changed.reduce((sum, value) => sum + value, 0);
+  const regions = findRegions(changed, width, height, { cellSize: options.cellSize ?? DEFAULT_CELL_SIZE })
+    .map(({ x, y, width, height, pixels }) => ({ x, y, width, height, pixels }));
+
+  return {
+    algorithm,
+    width,
+    height,
+    sizeMismatch,
+    expectedSize: sizeMismatch ? { width: expected.originalWidth, height: expected.originalHeight } : undefined,
+    diffPixels,
+    regions,
+    diff: diffImage(expected, changed),
+  };
+}
+
+/**
+ * Whether a comparison fails: region rules if any are set, the pixel budget
+ * (`maxDiffPixels`, `maxDiffPixelRatio`, as in Playwright) otherwise.
+ * Returns the reasons, empty if it passes.
+ */
+export function comparisonFailures(result, rules = {}) {
+  if (result.sizeMismatch) {
+    const { width, height } = result.expectedSize;
+    return [`Expected an image ${width}px by ${height}px, received ${result.width}px by ${result.height}px.`];
+  }
+
+  const regionRules = ['maxRegions', 'maxRegionPixels', 'maxRegionWidth', 'maxRegionHeight'].filter((key) => rules[key] !== undefined);
+  if (regionRules.length > 0) {
+    const reasons = [];
+    if (rules.maxRegions !== undefined && result.regions.length > rules.maxRegions) {
+      reasons.push(`${result.regions.length} changed regions, at most ${rules.maxRegions} allowed.`);
+    }
+    const tooLarge = result.regions.filter((region) =>
+      region.pixels > (rules.maxRegionPixels ?? Infinity) ||
+      region.width > (rules.maxRegionWidth ?? Infinity) ||
+      region.height > (rules.maxRegionHeight ?? Infinity));
+    if (tooLarge.length > 0) {
+      reasons.push(`${tooLarge.length} region(s) larger than allowed: ${tooLarge.map(describeRegion).join(', ')}.`);
+    }
+    return reasons;
+  }
+
+  const total = result.width * result.height;
+  const limits = [rules.maxDiffPixels, rules.maxDiffPixelRatio !== undefined ? total * rules.maxDiffPixelRatio : undefined]
+    .filter((limit) => limit !== undefined);
+  const maxDiffPixels = limits.length > 0 ? Math.min(...limits) : 0;
+  if (result.diffPixels > maxDiffPixels) {
+    // Same wording as Playwright, src/results.ts reads the numbers from it
+    const ratio = Math.ceil(result.diffPixels / total * 100) / 100;
+    return [`${result.diffPixels} pixels (ratio ${ratio.toFixed(2)} of all image pixels) are different.`];
+  }
+  return [];
+}
+
+export function describeRegion(region) {
+  return `${region.width}×${region.height} at ${region.x},${region.y} (${region.pixels} px)`;
+}
+
+function resize(image, width, height) {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < image.height; y++) {
+    data.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4), y * width * 4);
+  }
+  return { width, height, data, originalWidth: image.width, originalHeight: image.height };
+}
+
+function samePixel(a, b, p, q) {
+  return a[p] === b[q] && a[p + 1] === b[q + 1] && a[p + 2] === b[q + 2] && a[p + 3] === b[q + 3];
+}
+
+function luminance(data, p) {
+  return data[p] * 0.29889531 + data[p + 1] * 0.58662247 + data[p + 2] * 0.11448223;
+}
+
+function exactChanges(a, b, width, height) {
+  const changed = new Uint8Array(width * height);
+  for (let i = 0; i < changed.length; i++) {
+    if (!samePixel(a, b, i * 4, i * 4)) {
+      changed[i] = 1;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Pixelmatch-style comparison: perceptual color difference in YIQ space,
+ * ignoring pixels that are anti-aliased in either image
+ */
+function tolerantChanges(expected, actual, threshold) {
+  const { width, height } = expected;
+  const maxDelta = MAX_YIQ_DELTA * threshold * threshold;
+  const changed = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = (y * width + x) * 4;
+      if (samePixel(expected.data, actual.data, p, p) || Math.abs(colorDelta(expected.data, actual.data, p, p)) <= maxDelta) {
+        continue;
+      }
+      if (isAntialiased(expected, x, y, actual) || isAntialiased(actual, x, y, expected)) {
+        continue;
+      }
+      changed[y * width + x] = 1;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Squared YIQ difference of two pixels, blended onto white; negative if the second is darker
+ */
+function colorDelta(a, b, i, j, yOnly = false) {
+  const alphaA = a[i + 3] / 255;
+  const alphaB = b[j + 3] / 255;
+  const r1 = 255 + (a[i] - 255) * alphaA;
+  const g1 = 255 + (a[i + 1] - 255) * alphaA;
+  const b1 = 255 + (a[i + 2] - 255) * alphaA;
+  const r2 = 255 + (b[j] - 255) * alphaB;
+  const g2 = 255 + (b[j + 1] - 255) * alphaB;
+  const b2 = 255 + (b[j + 2] - 255) * alphaB;
+
+  const y1 = r1 * 0.29889531 + g1 * 0.58662247 + b1 * 0.11448223;
+  const y2 = r2 * 0.29889531 + g2 * 0.58662247 + b2 * 0.11448223;
+  const dy = y1 - y2;
+  if (yOnly) {
+    return dy;
+  }
+
+  const di = (r1 * 0.59597799 - g1 * 0.27417610 - b1 * 0.32180189) - (r2 * 0.59597799 - g2 * 0.27417610 - b2 * 0.32180189);
+  const dq = (r1 * 0.21147017 - g1 * 0.52261711 + b1 * 0.31114694) - (r2 * 0.21147017 - g2 * 0.52261711 + b2 * 0.31114694);
+  const delta = 0.5053 * dy * dy + 0.299 * di * di + 0.1957 * dq * dq;
+  return y1 > y2 ? -delta : delta;
+}
+
+/**
+ * A pixel is anti-aliased if, among its 8 neighbours, it has both a darker and a
+ * brighter one, at most 2 equal ones, and the darkest or brightest neighbour
+ * lies in a flat area (many equal siblings) in both images
+ */
+function isAntialiased(image, x1, y1, other) {
+  const { width, height, data } = image;
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const center = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+  let min = 0;
+  let max = 0;
+  let minX, minY, maxX, maxY;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) {
+        continue;
+      }
+      const delta = colorDelta(data, data, center, (y * width + x) * 4, true);
+      if (delta === 0) {
+        zeroes++;
+        if (zeroes > 2) {
+          return false;
+        }
+      } else if (delta < min) {
+        min = delta;
+        minX = x;
+        minY = y;
+      } else if (delta > max) {
+        max = delta;
+        maxX = x;
+        maxY = y;
+      }
+    }
+  }
+
+  if (min === 0 || max === 0) {
+    return false;
+  }
+  return (hasManySiblings(image, minX, minY) && hasManySiblings(other, minX, minY)) ||
+    (hasManySiblings(image, maxX, maxY) && hasManySiblings(other, maxX, maxY));
+}
+
+function hasManySiblings({ width, height, data }, x1, y1) {
+  const x0 = Math.max(x1 - 1, 0);
+  const y0 = Math.max(y1 - 1, 0);
+  const x2 = Math.min(x1 + 1, width - 1);
+  const y2 = Math.min(y1 + 1, height - 1);
+  const p = (y1 * width + x1) * 4;
+  let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+  for (let x = x0; x <= x2; x++) {
+    for (let y = y0; y <= y2; y++) {
+      if (x === x1 && y === y1) {
+        continue;
+      }
+      if (samePixel(data, data, p, (y * width + x) * 4)) {
+        zeroes++;
+      }
+      if (zeroes > 2) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Structural similarity of the luminance per block; the differing pixels of
+ * blocks below `minSSIM` count as changed
+ */
+function ssimChanges(expected, actual, minSSIM) {
+  const { width, height } = expected;
+  const exact = exactChanges(expected.data, actual.data, width, height);
+  const changed = new Uint8Array(width * height);
+  const c1 = (0.01 * 255) ** 2;
+  const c2 = (0.03 * 255) ** 2;
+
+  for (let by = 0; by < height; by += SSIM_BLOCK) {
+    for (let bx = 0; bx < width; bx += SSIM_BLOCK) {
+      const yEnd = Math.min(by + SSIM_BLOCK, height);
+      const xEnd = Math.min(bx + SSIM_BLOCK, width);
+      let differs = false;
+      let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+
+      for (let y = by; y < yEnd; y++) {
+        for (let x = bx; x < xEnd; x++) {
+          const i = y * width + x;
+          differs ||= exact[i] === 1;
+          const a = luminance(expected.data, i * 4);
+          const b = luminance(actual.data, i * 4);
+          n++;
+          sumA += a;
+          sumB += b;
+          sumAA += a * a;
+          sumBB += b * b;
+          sumAB += a * b;
+        }
+      }
+      if (!differs) {
+        continue;
+      }
+
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const covariance = sumAB / n - meanA * meanB;
+      const ssim = ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+        ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+      if (ssim >= minSSIM) {
+        continue;
+      }
+
+      for (let y = by; y < yEnd; y++) {
+        for (let x = bx; x < xEnd; x++) {
+          changed[y * width + x] = exact[y * width + x];
+        }
+      }
+    }
+  }
+  return changed;
+}
+
+/**
+ * Faded grayscale copy of the baseline with the changed pixels in red (like Playwright's diff)
+ */
+function diffImage(expected, changed) {
+  const { width, height } = expected;
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < changed.length; i++) {
+    const p = i * 4;
+    if (changed[i]) {
+      data.set([255, 0, 0, 255], p);
+    } else {
+      const alpha = expected.data[p + 3] / 255;
+      const gray = 255 + (luminance(expected.data, p) - 255) * alpha * 0.1;
+      data.set([gray, gray, gray, 255], p);
+    }
+  }
+  return encodePNG({ width, height, data });
+}
@@ -0,0 +1,161 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Content snapshots (`contentDiff` in the config): next to every screenshot,
+ * both passes capture the accessibility tree and the visible text. When a
+ * screenshot differs, the test gets a diff of both, so reviewers see which
+ * elements and texts changed, not only where pixels differ.
+ */
+
+/** Larger differences are not diffed line by line (the LCS table grows with both sizes) */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Content snapshot of a baseline image: `page.png` -> `page.content.json`
+ */
+export function contentPath(baselinePath) {
+  return baselinePath.replace(/\.png$/, '.content.json');
+}
+
+/**
+ * Accessibility tree (Playwright's ARIA snapshot) and visible text lines of
+ * the page or element, with whitespace normalized and empty lines dropped
+ */
+export async function captureContent(page, subject) {
+  const locator = subject === page ? page.locator('body') : subject;
+  const [aria, text] = await Promise.all([
+    locator.ariaSnapshot().catch(() => ''),
+    locator.innerText().catch(() => ''),
+  ]);
+  return { structure: normalizeLines(aria, true), text: normalizeLines(text, false) };
+}
+
+// The indentation of the ARIA snapshot is the nesting, so it is kept there
+function normalizeLines(value, keepIndent) {
+  return value.split('\n')
+    .map((line) => (keepIndent ? line.match(/^\s*/)[0] : '') + line.trim().replace(/\s+/g, ' '))
+    .filter((line) => line.trim() !== '');
+}
+
+export function saveContent(filePath, content) {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, JSON.stringify(content, null, 2), 'utf-8');
+}
+
+export function loadContent(filePath) {
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Line diff of two content snapshots: `{ structure, text }`, each a list of
+ * hunks `{ type: 'added' | 'removed' | 'changed', before, after }`
+ */
+export function diffContent(baseline, actual) {
+  return {
+    structure: diffLines(baseline.structure || [], actual.structure || []),
+    text: diffLines(baseline.text || [], actual.text || []),
+  };
+}
+
+/**
+ * Hunks of added, removed and changed (removed and added at the same place) lines
+ */
+export function diffLines(before, after) {
+  // Common start and end don't need the LCS table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+  let end = 0;
+  while (end < before.length - start && end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]) {
+    end++;
+  }
+
+  const a = before.slice(start, before.length - end);
+  const b = after.slice(start, after.length - end);
+  if (a.length === 0 && b.length === 0) {
+    return [];
+  }
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [hunk(a, b)];
+  }
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const hunks = [];
+  let removed = [];
+  let added = [];
+  const flush = () => {
+    if (removed.length > 0 || added.length > 0) {
+      hunks.push(hunk(removed, added));
+      removed = [];
+      added = [];
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+
+  return hunks;
+}
+
+function hunk(before, after) {
+  const type = before.length === 0 ? 'added' : after.length === 0 ? 'removed' : 'changed';
+  return { type, before, after };
+}
+
+/**
+ * Number of added, removed and changed hunks
+ */
+export function summarizeDiff(hunks) {
+  const count = (type) => hunks.filter((h) => h.type === type).length;
+  return { added: count('added'), removed: count('removed'), changed: count('changed') };
+}
+
+/**
+ * Readable diff (`-` baseline, `+` actual) for the report
+ */
+export function formatContentDiff(diff) {
+  const section = (title, hunks) => {
+    if (hunks.length === 0) {
+      return `${title}: no changes`;
+    }
+    const { added, removed, changed } = summarizeDiff(hunks);
+    const lines = [`${title}: ${added} added, ${removed} removed, ${changed} changed`];
+    for (const { type, before, after } of hunks) {
+      lines.push('', `@@ ${type}`);
+      before.forEach((line) => lines.push(`- ${line}`));
+      after.forEach((line) => lines.push(`+ ${line}`));
+    }
+    return lines.join('\n');
+  };
+
+  return `${section('Structure (accessibility tree)', diff.structure)}\n\n${section('Text', diff.text)}\n`;
+}
@@ -0,0 +1,93 @@
+/**
+ * Make pages render the same on every run (`determinism` in the config):
+ * a frozen clock, a seeded Math.random and blocked or stubbed third-party requests.
+ * Applied before navigating, so the baseline and the test pass behave alike.
+ */
+
+/**
+ * Check if a hostname is one of the domains or a subdomain of one
+ * (`*.example.com` and `example.com` are equivalent)
+ */
+export function matchesDomain(hostname, domains = []) {
+  const host = hostname.toLowerCase();
+  return domains.some((domain) => {
+    const wanted = domain.toLowerCase().replace(/^\*\./, '');
+    return host === wanted || host.endsWith(`.${wanted}`);
+  });
+}
+
+/**
+ * Replace Math.random with a seeded generator (FNV-1a seed hash + mulberry32,
+ * the same as URL sampling in src/sampling.ts). Runs in the page.
+ */
+function seedRandom(seed) {
+  let state = 2166136261;
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+  }
+
+  Math.random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Content types of stubbed responses, so that scripts and styles are not rejected
+ */
+const STUB_CONTENT_TYPES = {
+  document: 'text/html',
+  script: 'application/javascript',
+  stylesheet: 'text/css',
+  xhr: 'application/json',
+  fetch: 'application/json',
+};
+
+// 1×1 transparent GIF for stubbed images
+const EMPTY_GIF = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * Apply the `determinism` settings to a page. Blocked and stubbed requests
+ * are passed to `onRequest({ url, action })`.
+ */
+export async function applyDeterminism(page, options = {}, onRequest = () => {}) {
+  if (options.freezeTime !== undefined) {
+    await page.clock.setFixedTime(new Date(options.freezeTime));
+  }
+
+  if (options.randomSeed !== undefined) {
+    await page.addInitScript(seedRandom, options.randomSeed);
+  }
+
+  const block = options.block || [];
+  const stub = options.stub || [];
+  if (block.length === 0 && stub.length === 0) {
+    return;
+  }
+
+  await page.route('**/*', async (route) => {
+    const request = route.request();
+    const { hostname } = new URL(request.url());
+
+    if (matchesDomain(hostname, block)) {
+      onRequest({ url: request.url(), action: 'block' });
+      await route.abort('blockedbyclient');
+    } else if (matchesDomain(hostname, stub)) {
+      onRequest({ url: request.url(), action: 'stub' });
+      if (request.resourceType() === 'image') {
+        await route.fulfill({ status: 200, contentType: 'image/gif', body: EMPTY_GIF });
+        return;
+      }
+      const contentType = STUB_CONTENT_TYPES[request.resourceType()];
+      await route.fulfill({
+        status: 200,
+        contentType: contentType || 'text/plain',
+        body: contentType?.endsWith('json') ? '{}' : '',
+      });
+    } else {
+      await route.fallback();
+    }
+  });
+}
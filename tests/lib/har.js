@@ -0,0 +1,40 @@
+import { existsSync, statSync } from 'fs';
+import { join } from 'path';
+import { urlSlug } from './naming.js';
+
+/**
+ * HAR recordings of the reference pass (`har` in the config), one per URL and
+ * project, stored next to the baselines in playwright-snapshots/har/<browser>/<viewport>/.
+ * Projects request different resources (srcset, media queries), so they don't share one.
+ */
+export function harPath(snapshotDir, browser, viewport, url) {
+  return join(snapshotDir, 'har', browser, viewport, `${urlSlug(url)}.har`);
+}
+
+/**
+ * Check if a recording exists and is not older than `maxAgeHours`
+ */
+export function isRecordingFresh(filePath, maxAgeHours) {
+  if (!existsSync(filePath)) {
+    return false;
+  }
+  if (maxAgeHours === undefined) {
+    return true;
+  }
+  return Date.now() - statSync(filePath).mtimeMs <= maxAgeHours * 60 * 60 * 1000;
+}
+
+/**
+ * Replay the page from its recording, or record it if there is no fresh one.
+ * Returns `replay` or `record`.
+ */
+export async function routeFromRecording(page, filePath, options = {}) {
+  if (isRecordingFresh(filePath, options.maxAgeHours)) {
+    await page.routeFromHAR(filePath, { notFound: options.notFound || 'abort' });
+    return 'replay';
+  }
+
+  // The HAR is written when the browser context closes (after the test)
+  await page.routeFromHAR(filePath, { update: true, updateContent: 'embed', updateMode: 'minimal' });
+  return 'record';
+}
@@ -0,0 +1,40 @@
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+/**
+ * User hook modules (`hooks` in the config), loaded once per worker
+ */
+let loaded;
+
+function loadHooks(files = []) {
+  loaded ||= Promise.all(files.map(async (file) => {
+    try {
+      const module = await import(pathToFileURL(resolve(process.cwd(), file)).href);
+      return { file, hooks: module.default ?? module };
+    } catch (error) {
+      throw new Error(`Could not load hook module ${file}: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
+  }));
+  return loaded;
+}
+
+/**
+ * Call the `name` hook (beforeNavigate, afterLoad, beforeScreenshot) of every
+ * module in config order. Errors name the module that failed.
+ */
+export async function runHooks(files, name, context) {
+  if (!files || files.length === 0) {
+    return;
+  }
+
+  for (const { file, hooks } of await loadHooks(files)) {
+    if (typeof hooks[name] !== 'function') {
+      continue;
+    }
+    try {
+      await hooks[name](context);
+    } catch (error) {
+      throw new Error(`Hook ${name} in ${file} failed: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { PNG } from 'pngjs';
+
+/**
+ * Decode a PNG buffer into `{ width, height, data }` (RGBA)
+ */
+export function decodePNG(buffer) {
+  return PNG.sync.read(buffer);
+}
+
+/**
+ * Encode `{ width, height, data }` (RGBA) as PNG
+ */
+export function encodePNG(image) {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  return PNG.sync.write(png);
+}
+
+/**
+ * Count, per pixel, in how many images the pixel differs from the first one.
+ * Only the area all images share is compared (full-page screenshots may differ in height).
+ */
+export function changeCounts(images) {
+  const [first, ...others] = images;
+  const width = Math.min(...images.map((image) => image.width));
+  const height = Math.min(...images.map((image) => image.height));
+  const counts = new Uint8Array(width * height);
+
+  for (const other of others) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const a = (y * first.width + x) * 4;
+        const b = (y * other.width + x) * 4;
+        if (first.data[a] !== other.data[b] ||
+            first.data[a + 1] !== other.data[b + 1] ||
+            first.data[a + 2] !== other.data[b + 2] ||
+            first.data[a + 3] !== other.data[b + 3]) {
+          counts[y * width + x]++;
+        }
+      }
+    }
+  }
+
+  return { width, height, counts };
+}
+
+/**
+ * Cluster changed pixels (`values[i] > 0`) into rectangular regions.
+ * The image is divided into cells of `cellSize` pixels; neighbouring cells
+ * with changes (including diagonals) form one region.
+ * Returns `{ x, y, width, height, pixels, max }` per region, where `max` is the
+ * largest value inside it, sorted top to bottom.
+ */
+export function findRegions(values, width, height, options = {}) {
+  const cellSize = options.cellSize ?? 16;
+  const padding = options.padding ?? 0;
+  const cols = Math.ceil(width / cellSize);
+  const rows = Math.ceil(height / cellSize);
+  const cells = new Map();
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = values[y * width + x];
+      if (!value) {
+        continue;
+      }
+      const index = Math.floor(y / cellSize) * cols + Math.floor(x / cellSize);
+      let cell = cells.get(index);
+      if (!cell) {
+        cell = { minX: x, minY: y, maxX: x, maxY: y, pixels: 0, max: 0 };
+        cells.set(index, cell);
+      }
+      cell.minX = Math.min(cell.minX, x);
+      cell.maxX = Math.max(cell.maxX, x);
+      cell.maxY = y;
+      cell.pixels++;
+      cell.max = Math.max(cell.max, value);
+    }
+  }
+
+  const regions = [];
+  const visited = new Set();
+
+  for (const start of cells.keys()) {
+    if (visited.has(start)) {
+      continue;
+    }
+
+    const region = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity, pixels: 0, max: 0 };
+    const stack = [start];
+    visited.add(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop();
+      const cell = cells.get(index);
+      region.minX = Math.min(region.minX, cell.minX);
+      region.minY = Math.min(region.minY, cell.minY);
+      region.maxX = Math.max(region.maxX, cell.maxX);
+      region.maxY = Math.max(region.maxY, cell.maxY);
+      region.pixels += cell.pixels;
+      region.max = Math.max(region.max, cell.max);
+
+      const col = index % cols;
+      const row = Math.floor(index / cols);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          const neighbour = r * cols + c;
+          if (c >= 0 && c < cols && r >= 0 && r < rows && cells.has(neighbour) && !visited.has(neighbour)) {
+            visited.add(neighbour);
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    const x = Math.max(0, region.minX - padding);
+    const y = Math.max(0, region.minY - padding);
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, region.maxX + 1 + padding) - x,
+      height: Math.min(height, region.maxY + 1 + padding) - y,
+      pixels: region.pixels,
+      max: region.max,
+    });
+  }
+
+  return regions.sort((a, b) => a.y - b.y || a.x - b.x);
+}
@@ -0,0 +1,32 @@
+/**
+ * Per-test metadata attached to the Playwright results as `vrt-meta`,
+ * read back by src/results.ts to build the per-screenshot results export.
+ */
+const metaByTest = new Map();
+
+/**
+ * Get (and create on first use) the metadata of the running test
+ */
+export function testMeta(testInfo, defaults = {}) {
+  if (!metaByTest.has(testInfo.testId)) {
+    metaByTest.set(testInfo.testId, { screenshots: [], ...defaults });
+  }
+  const meta = metaByTest.get(testInfo.testId);
+  Object.assign(meta, defaults);
+  return meta;
+}
+
+/**
+ * Attach the collected metadata to the test result
+ */
+export async function attachMeta(testInfo) {
+  const meta = metaByTest.get(testInfo.testId);
+  if (!meta) {
+    return;
+  }
+  metaByTest.delete(testInfo.testId);
+  await testInfo.attach('vrt-meta', {
+    body: JSON.stringify(meta),
+    contentType: 'application/json',
+  });
+}
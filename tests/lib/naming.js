@@ -0,0 +1,23 @@
+import { createHash } from 'crypto';
+
+/**
+ * Convert a name into a file system friendly slug
+ */
+export function slugify(value) {
+  return String(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+}
+
+/**
+ * Stable, readable identifier for a URL: the slugified path plus a
+ * short hash of path and query, so `/a-b` and `/a/b` do not collide.
+ */
+export function urlSlug(url) {
+  const urlObj = new URL(url);
+  const fullPath = urlObj.pathname + urlObj.search;
+  const hash = createHash('sha256').update(fullPath).digest('hex').slice(0, 8);
+  return `${slugify(fullPath) || 'home'}-${hash}`;
+}
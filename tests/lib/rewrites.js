@@ -0,0 +1,19 @@
+/**
+ * Map a reference path (pathname + search) to the test environment,
+ * using the first matching `pathRewrites` rule:
+ * - `prefix` (default): replace a leading `from` with `to`
+ * - `regex`: `path.replace(new RegExp(from), to)`, `$1` etc. refer to groups
+ */
+export function rewritePath(path, rules = []) {
+  for (const rule of rules) {
+    if (rule.type === 'regex') {
+      const pattern = new RegExp(rule.from);
+      if (pattern.test(path)) {
+        return path.replace(pattern, rule.to);
+      }
+    } else if (path.startsWith(rule.from)) {
+      return rule.to + path.slice(rule.from.length);
+    }
+  }
+  return path;
+}
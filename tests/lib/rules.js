@@ -0,0 +1,60 @@
+import micromatch from 'micromatch';
+
+/**
+ * Path used for matching URL patterns (same as URL filtering in collect.ts)
+ */
+export function matchPath(url) {
+  const urlObj = new URL(url);
+  return urlObj.pathname + urlObj.search;
+}
+
+/**
+ * Check if a URL matches one or more glob patterns.
+ * Missing or empty patterns match every URL.
+ */
+export function matchesURL(url, patterns) {
+  if (!patterns || patterns.length === 0) {
+    return true;
+  }
+  const list = Array.isArray(patterns) ? patterns : [patterns];
+  return micromatch.isMatch(matchPath(url), list, { bash: true });
+}
+
+/**
+ * Resolve the mask and hide selectors for a URL from the global
+ * settings and all matching overrides
+ */
+export function resolvePageRules(vrtConfig, url) {
+  const mask = [...(vrtConfig.mask || [])];
+  const hide = [...(vrtConfig.hide || [])];
+
+  for (const override of vrtConfig.overrides || []) {
+    if (!matchesURL(url, override.match)) {
+      continue;
+    }
+    mask.push(...(override.mask || []));
+    hide.push(...(override.hide || []));
+  }
+
+  return {
+    mask: Array.from(new Set(mask)),
+    hide: Array.from(new Set(hide)),
+  };
+}
+
+/**
+ * Build the CSS that hides the given selectors during screenshots
+ */
+export function buildHideCSS(selectors) {
+  if (selectors.length === 0) {
+    return '';
+  }
+  return `${selectors.join(',\n')} {\n  visibility: hidden !important;\n}\n`;
+}
+
+/**
+ * Components whose `match` patterns apply to the given URL
+ */
+export function componentsForURL(vrtConfig, url) {
+  return (vrtConfig.components || []).filter(component => matchesURL(url, component.match));
+}
@@ -0,0 +1,77 @@
+import { matchesURL } from './rules.js';
+
+/**
+ * Scenarios whose `match` patterns apply to the given URL
+ */
+export function scenariosForURL(vrtConfig, url) {
+  return (vrtConfig.scenarios || []).filter(scenario => matchesURL(url, scenario.match));
+}
+
+/**
+ * Start waiting for a network request before the step that triggers it runs
+ */
+function waitForRequest(page, step) {
+  return page.waitForRequest(step.url, { timeout: step.timeout ?? 10000 });
+}
+
+/**
+ * Run the steps of a scenario in order.
+ * `screenshot` steps are handed to the `takeScreenshot` callback.
+ */
+export async function runScenario(page, scenario, takeScreenshot) {
+  const steps = scenario.steps || [];
+  let pendingRequest = null;
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const next = steps[i + 1];
+    const timeout = step.timeout ?? 10000;
+
+    // A waitForRequest step waits for a request triggered by the previous
+    // step, so the listener has to be registered before that step runs
+    if (next?.action === 'waitForRequest' && step.action !== 'waitForRequest') {
+      pendingRequest = waitForRequest(page, next);
+    }
+
+    switch (step.action) {
+      case 'click':
+        await page.locator(step.selector).first().click({ timeout });
+        break;
+      case 'hover':
+        await page.locator(step.selector).first().hover({ timeout });
+        break;
+      case 'fill':
+        await page.locator(step.selector).first().fill(step.value ?? '', { timeout });
+        break;
+      case 'press':
+        if (step.selector) {
+          await page.locator(step.selector).first().press(step.key, { timeout });
+        } else {
+          await page.keyboard.press(step.key);
+        }
+        break;
+      case 'scrollTo':
+        if (step.selector) {
+          await page.locator(step.selector).first().scrollIntoViewIfNeeded({ timeout });
+        } else {
+          await page.evaluate(y => window.scrollTo(0, y), step.y ?? 0);
+        }
+        break;
+      case 'waitForSelector':
+        await page.locator(step.selector).first().waitFor({ state: step.state || 'visible', timeout });
+        break;
+      case 'waitForRequest':
+        await (pendingRequest || waitForRequest(page, step));
+        pendingRequest = null;
+        break;
+      case 'wait':
+        await page.waitForTimeout(step.ms ?? 500);
+        break;
+      case 'screenshot':
+        await takeScreenshot(step.name);
+        break;
+      default:
+        throw new Error(`Unknown scenario action "${step.action}" in scenario "${scenario.name}"`);
+    }
+  }
+}
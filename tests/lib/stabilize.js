@@ -0,0 +1,157 @@
+/**
+ * Stabilization after loading a page (`stabilization` in the config): scroll
+ * through the page to trigger lazy loading, then wait for images, web fonts
+ * and for the page height and DOM to stop changing. All steps share one timeout.
+ *
+ * Waiting is timed in Node, as `determinism.freezeTime` stops the page's clock.
+ */
+
+const DEFAULTS = {
+  scroll: true,
+  scrollDelay: 100,
+  images: true,
+  fonts: true,
+  stableFor: 500,
+  timeout: 10000,
+};
+
+/** Interval of the height/DOM checks */
+const POLL_INTERVAL = 100;
+
+/**
+ * Run the enabled steps and return how long each took and why
+ * (`{ ms, steps: [{ step, ms, reason }] }`). A step that runs out of time
+ * ends early; the screenshot is taken anyway.
+ */
+export async function stabilize(page, options = {}) {
+  const settings = { ...DEFAULTS, ...options };
+  const started = Date.now();
+  const deadline = started + settings.timeout;
+  const steps = [];
+
+  const run = async (step, enabled, wait) => {
+    if (!enabled) {
+      return;
+    }
+    const stepStarted = Date.now();
+    const reason = Date.now() < deadline ? await wait() : 'skipped, timeout reached';
+    steps.push({ step, ms: Date.now() - stepStarted, reason });
+  };
+
+  await run('scroll', settings.scroll, () => autoScroll(page, settings.scrollDelay, deadline));
+  await run('images', settings.images, () => waitForImages(page, deadline - Date.now()));
+  await run('fonts', settings.fonts, () => waitForFonts(page, deadline - Date.now()));
+  await run('stable', settings.stableFor > 0, () => waitForStablePage(page, settings.stableFor, deadline));
+
+  // Let pending animations and layout settle
+  await page.evaluate(() => new Promise((resolve) => requestAnimationFrame(resolve)));
+
+  return { ms: Date.now() - started, steps };
+}
+
+/**
+ * Scroll down one viewport at a time until the (possibly growing) page ends, then back to the top
+ */
+async function autoScroll(page, delay, deadline) {
+  let screens = 0;
+  let atBottom = false;
+
+  while (!atBottom && Date.now() < deadline) {
+    await page.evaluate(() => window.scrollBy(0, window.innerHeight));
+    screens++;
+    await page.waitForTimeout(delay);
+    atBottom = await page.evaluate(() =>
+      window.scrollY + window.innerHeight >= document.documentElement.scrollHeight - 1);
+  }
+
+  const height = await page.evaluate(() => {
+    window.scrollTo(0, 0);
+    return document.documentElement.scrollHeight;
+  });
+  return atBottom
+    ? `scrolled ${screens} screen(s) to the end at ${height}px`
+    : `stopped after ${screens} screen(s) at the timeout, page is ${height}px high`;
+}
+
+/**
+ * Load lazy images eagerly and wait until every image is decoded (broken images count as done)
+ */
+async function waitForImages(page, timeout) {
+  const { total, pending } = await page.evaluate((timeout) => {
+    const images = Array.from(document.images).filter((image) => image.currentSrc || image.src);
+    let done = 0;
+    const decoded = images.map((image) => {
+      if (image.loading === 'lazy') {
+        image.loading = 'eager';
+      }
+      return image.decode().catch(() => {}).then(() => { done++; });
+    });
+    return Promise.race([
+      Promise.all(decoded),
+      new Promise((resolve) => setTimeout(resolve, timeout)),
+    ]).then(() => ({ total: images.length, pending: images.length - done }));
+  }, timeout);
+
+  return pending > 0
+    ? `${pending} of ${total} image(s) still loading at the timeout`
+    : `${total} image(s) decoded`;
+}
+
+/**
+ * Wait until all web fonts in use are loaded
+ */
+async function waitForFonts(page, timeout) {
+  const { loaded, ready } = await page.evaluate((timeout) => Promise.race([
+    document.fonts.ready.then(() => true),
+    new Promise((resolve) => setTimeout(() => resolve(false), timeout)),
+  ]).then((ready) => ({
+    ready,
+    loaded: Array.from(document.fonts).filter((font) => font.status === 'loaded').length,
+  })), timeout);
+
+  return ready ? `${loaded} web font(s) loaded` : `fonts still loading at the timeout (${loaded} loaded)`;
+}
+
+/**
+ * Wait until the page height and DOM have not changed for `stableFor` ms
+ */
+async function waitForStablePage(page, stableFor, deadline) {
+  // Count DOM mutations from now on (once per document)
+  await page.evaluate(() => {
+    if (window.__vrtMutations === undefined) {
+      window.__vrtMutations = 0;
+      new MutationObserver((records) => { window.__vrtMutations += records.length; })
+        .observe(document.documentElement, { subtree: true, childList: true, attributes: true, characterData: true });
+    }
+  });
+
+  const sample = () => page.evaluate(() => ({
+    height: document.documentElement.scrollHeight,
+    mutations: window.__vrtMutations,
+  }));
+
+  let last = await sample();
+  const first = last;
+  let unchangedSince = Date.now();
+
+  while (Date.now() - unchangedSince < stableFor) {
+    if (Date.now() >= deadline) {
+      return `still changing at the timeout (height ${first.height}px -> ${last.height}px, ${last.mutations} DOM mutation(s))`;
+    }
+    await page.waitForTimeout(POLL_INTERVAL);
+    const current = await sample();
+    if (current.height !== last.height || current.mutations !== last.mutations) {
+      unchangedSince = Date.now();
+    }
+    last = current;
+  }
+
+  return `height ${last.height}px and DOM unchanged for ${stableFor}ms${last.mutations > 0 ? ` (after ${last.mutations} DOM mutation(s))` : ''}`;
+}
+
+/**
+ * One line per step for verbose output
+ */
+export function describeStabilization(result) {
+  return result.steps.map(({ step, ms, reason }) => `${step} ${ms}ms: ${reason}`);
+}
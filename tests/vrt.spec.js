@@ -1,14 +1,27 @@
 import { test, expect } from '@playwright/test';
-import { readFileSync, existsSync } from 'fs';
-import { join, dirname } from 'path';
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
+import { join, dirname, sep } from 'path';
 import { fileURLToPath } from 'url';
+import { resolvePageRules, buildHideCSS, componentsForURL } from './lib/rules.js';
+import { scenariosForURL, runScenario } from './lib/scenarios.js';
+import { urlSlug, slugify } from './lib/naming.js';
+import { testMeta, attachMeta } from './lib/meta.js';
+import { rewritePath } from './lib/rewrites.js';
+import { applyDeterminism } from './lib/determinism.js';
+import { harPath, routeFromRecording } from './lib/har.js';
+import { runHooks } from './lib/hooks.js';
+import { stabilize, describeStabilization } from './lib/stabilize.js';
+import { contentPath, captureContent, saveContent, loadContent, diffContent, summarizeDiff, formatContentDiff } from './lib/content.js';
+import { compareImages, comparisonFailures } from './lib/compare.js';
+import { autoMaskPath, calibrate, saveAutoMask, loadAutoMask, applyAutoMask } from './lib/calibration.js';
 
 // ESM equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Load URLs from playwright-snapshots/ (shared with snapshots for easy caching)
-const urlsPath = join(process.cwd(), 'playwright-snapshots', 'urls.json');
+const snapshotDir = join(process.cwd(), 'playwright-snapshots');
+const urlsPath = join(snapshotDir, 'urls.json');
 
 // CSS file is in the same directory as this test file
 const stylePath = join(__dirname, 'vrt.css');
@@ -17,46 +30,379 @@ if (!existsSync(urlsPath)) {
   throw new Error(`URLs file not found at ${urlsPath}. Did you run URL collection?`);
 }
 
-const urls = JSON.parse(readFileSync(urlsPath, 'utf-8'));
+// urls.json holds `{ urls, sampling, ... }` (older versions wrote a plain list)
+const urlsFile = JSON.parse(readFileSync(urlsPath, 'utf-8'));
+const urls = Array.isArray(urlsFile) ? urlsFile : urlsFile.urls;
 
 // Load config for threshold settings
 const vrtConfig = process.env.VRT_CONFIG
   ? JSON.parse(process.env.VRT_CONFIG)
   : {};
 
+// Only these `<project> <url>` pairs are run when part of the baseline is outdated (see src/cache.ts)
+const onlyPairs = process.env.VRT_ONLY
+  ? new Set(JSON.parse(readFileSync(process.env.VRT_ONLY, 'utf-8')))
+  : null;
+
+// `reference` while creating the baseline, `test` while comparing (see src/runner.ts)
+const target = process.env.VRT_TARGET || 'test';
+
+// Print details like the stabilization steps (--verbose)
+const verbose = process.env.VRT_VERBOSE === '1';
+
 const threshold = vrtConfig.threshold || {
   maxDiffPixels: 100,
   maxDiffPixelRatio: 0.01,
 };
 
-// Create a test for each URL
-for (const url of urls) {
-  test(`VRT: ${url}`, async ({ page }) => {
-    // Navigate to the URL
-    const pageUrl = new URL(url);
-    const fullPath = pageUrl.pathname + pageUrl.search;
-    await page.goto(fullPath, {
-      waitUntil: 'networkidle',
-      timeout: 30000
-    });
+// Result of a `comparison` (see tests/lib/compare.js), reported like toHaveScreenshot()
+const comparisonExpect = expect.extend({
+  toPassComparison(failures, name, algorithm) {
+    return {
+      name: 'toPassComparison',
+      pass: failures.length === 0,
+      message: () => `Screenshot comparison (${algorithm}) failed:\n\n${failures.map((failure) => `  ${failure}`).join('\n')}\n\n` +
+        `Snapshot: ${name.split('/').join(sep)}`,
+    };
+  },
+});
 
-    // Wait for fonts to load
-    await page.evaluate(() => document.fonts.ready);
+/**
+ * Skip the test if its URL and project are not selected
+ */
+function skipUnselected(testInfo, url) {
+  test.skip(onlyPairs !== null && !onlyPairs.has(`${testInfo.project.name} ${url}`), 'Baseline is up to date');
+}
+
+/**
+ * Navigate to the URL and wait for the page to settle.
+ * On the test side, the path is mapped with `pathRewrites`; the requested
+ * path and HTTP status are recorded for the results export, as are
+ * requests blocked or stubbed by the `determinism` settings.
+ * With `har`, the reference pass replays (or records) the page's HAR.
+ */
+async function openPage(page, url, testInfo) {
+  if (target === 'reference' && vrtConfig.har) {
+    const { viewport, browser } = testInfo.project.metadata;
+    testMeta(testInfo).har = await routeFromRecording(page, harPath(snapshotDir, browser, viewport, url), vrtConfig.har);
+  }
+
+  // Registered after the HAR route, so blocking and stubbing take precedence
+  const blocked = testMeta(testInfo).blockedRequests = [];
+  await applyDeterminism(page, vrtConfig.determinism, (request) => {
+    if (!blocked.some((entry) => entry.url === request.url)) {
+      blocked.push(request);
+    }
+  });
+
+  await runHooks(vrtConfig.hooks, 'beforeNavigate', hookContext(page, testInfo));
+
+  const pageUrl = new URL(url);
+  const referencePath = pageUrl.pathname + pageUrl.search;
+  const fullPath = target === 'test' ? rewritePath(referencePath, vrtConfig.pathRewrites) : referencePath;
+  const response = await page.goto(fullPath, {
+    waitUntil: 'networkidle',
+    timeout: 30000
+  });
+  testMeta(testInfo).navigation = { target, path: fullPath, status: response?.status() };
+
+  await settle(page, testInfo);
+  await runHooks(vrtConfig.hooks, 'afterLoad', hookContext(page, testInfo));
+}
 
-    // Wait for animations to settle
+/**
+ * Load the page again (same routes and settings as the first load)
+ */
+async function reloadPage(page, testInfo) {
+  await page.reload({ waitUntil: 'networkidle', timeout: 30000 });
+  await settle(page, testInfo);
+  await runHooks(vrtConfig.hooks, 'afterLoad', hookContext(page, testInfo));
+}
+
+/**
+ * Argument of the `hooks` functions (see HookContext in src/config.ts)
+ */
+function hookContext(page, testInfo, extra = {}) {
+  const { url, kind, name } = testMeta(testInfo);
+  const { viewport, browser } = testInfo.project.metadata;
+  return {
+    page,
+    url,
+    viewport: { name: viewport, ...page.viewportSize() },
+    browser,
+    project: testInfo.project.name,
+    target,
+    kind,
+    name,
+    ...extra,
+  };
+}
+
+/**
+ * Wait for the loaded page to settle: lazy content, images, fonts and a
+ * stable layout (`stabilization`), or only fonts and one frame if disabled
+ */
+async function settle(page, testInfo) {
+  if (vrtConfig.stabilization === false) {
+    await page.evaluate(() => document.fonts.ready);
     await page.evaluate(() => new Promise(resolve => requestAnimationFrame(resolve)));
+    return;
+  }
+
+  const result = await stabilize(page, vrtConfig.stabilization);
+  if (verbose) {
+    const { url } = testMeta(testInfo);
+    console.log(`⏳ [${testInfo.project.name}] ${url}: stable after ${result.ms}ms`);
+    describeStabilization(result).forEach((line) => console.log(`   ${line}`));
+  }
+}
+
+/**
+ * Screenshot options for a URL, including configured mask and hide selectors
+ */
+function screenshotOptions(page, testInfo, url) {
+  const rules = resolvePageRules(vrtConfig, url);
+  const stylePaths = [stylePath];
+  if (rules.hide.length > 0) {
+    const hidePath = testInfo.outputPath('vrt-hide.css');
+    writeFileSync(hidePath, buildHideCSS(rules.hide), 'utf-8');
+    stylePaths.push(hidePath);
+  }
+
+  return {
+    maxDiffPixels: threshold.maxDiffPixels,
+    maxDiffPixelRatio: threshold.maxDiffPixelRatio,
+    animations: 'disabled',
+    stylePath: stylePaths,
+    mask: rules.mask.map(selector => page.locator(selector)),
+    maskColor: vrtConfig.maskColor,
+    timeout: 10000
+  };
+}
+
+/**
+ * Automatic masks of a page screenshot (`calibration`): the baseline pass
+ * screenshots the page several times and stores the regions that changed,
+ * both passes cover them before the screenshot is taken.
+ */
+async function applyCalibration(page, testInfo, url, nameParts) {
+  const filePath = autoMaskPath(testInfo.snapshotPath(...nameParts, { kind: 'screenshot' }));
+  let autoMask;
+
+  if (target === 'reference') {
+    const { stylePath: stylePaths, mask, maskColor, animations } = screenshotOptions(page, testInfo, url);
+    const style = stylePaths.map((file) => readFileSync(file, 'utf-8')).join('\n');
+
+    autoMask = await calibrate(async (run) => {
+      if (run > 0) {
+        await reloadPage(page, testInfo);
+      }
+      await runHooks(vrtConfig.hooks, 'beforeScreenshot', hookContext(page, testInfo, { screenshot: nameParts.join('/') }));
+      return page.screenshot({ fullPage: true, animations, mask, maskColor, style });
+    }, vrtConfig.calibration);
+    saveAutoMask(filePath, autoMask);
+
+    // beforeScreenshot runs again for the baseline, on a fresh load
+    if (vrtConfig.hooks?.length) {
+      await reloadPage(page, testInfo);
+    }
+  } else {
+    autoMask = loadAutoMask(filePath);
+  }
+
+  if (!autoMask) {
+    return;
+  }
+
+  await applyAutoMask(page, autoMask.regions, vrtConfig.maskColor);
+  testMeta(testInfo).autoMask = autoMask.regions;
 
-    // Additional stability wait for lazy-loaded content
-    await page.waitForTimeout(500);
+  const description = autoMask.skipped ||
+    autoMask.regions.map((r) => `${r.width}×${r.height} at ${r.x},${r.y} (${r.reason})`).join('; ');
+  if (description) {
+    testInfo.annotations.push({ type: 'auto-mask', description });
+  }
+}
+
+/**
+ * Compare a page or element screenshot against its baseline and record it
+ * in the test metadata (for the results export). Runs the beforeScreenshot hooks first.
+ * Unless `contentDiff` is false, the content is captured too: stored with the
+ * baseline, and diffed against it when the screenshot differs.
+ */
+async function compareScreenshot(testInfo, page, subject, nameParts, options, soft = false) {
+  const screenshot = {
+    name: nameParts.join('/'),
+    baseline: testInfo.snapshotPath(...nameParts, { kind: 'screenshot' }),
+  };
+  testMeta(testInfo).screenshots.push(screenshot);
+
+  await runHooks(vrtConfig.hooks, 'beforeScreenshot', hookContext(page, testInfo, { screenshot: screenshot.name }));
+
+  const content = vrtConfig.contentDiff === false ? undefined : await captureContent(page, subject);
+  if (content && target === 'reference') {
+    saveContent(contentPath(screenshot.baseline), content);
+  }
+
+  // Soft assertions record their failure instead of throwing
+  const errors = testInfo.errors.length;
+  try {
+    if (target === 'test' && vrtConfig.comparison && existsSync(screenshot.baseline)) {
+      await compareWithAlgorithm(testInfo, subject, screenshot, options, soft);
+    } else {
+      const assertion = soft ? expect.soft(subject) : expect(subject);
+      await assertion.toHaveScreenshot(nameParts, options);
+    }
+  } catch (error) {
+    if (content && target === 'test') {
+      await attachContentDiff(testInfo, screenshot, content);
+    }
+    throw error;
+  }
+  if (content && target === 'test' && testInfo.errors.length > errors) {
+    await attachContentDiff(testInfo, screenshot, content);
+  }
+}
+
+/**
+ * Compare with the configured `comparison` algorithm instead of Playwright's:
+ * takes the screenshot with the same options, records the changed regions and,
+ * on failure, attaches expected, actual and diff images like toHaveScreenshot()
+ */
+async function compareWithAlgorithm(testInfo, subject, screenshot, options, soft) {
+  const { stylePath: stylePaths, maxDiffPixels, maxDiffPixelRatio, ...captureOptions } = options;
+  const style = stylePaths.map((file) => readFileSync(file, 'utf-8')).join('\n');
+  const actual = await subject.screenshot({ ...captureOptions, style, scale: 'css', caret: 'hide' });
+
+  const result = compareImages(readFileSync(screenshot.baseline), actual, vrtConfig.comparison);
+  const failures = comparisonFailures(result, { maxDiffPixels, maxDiffPixelRatio, ...vrtConfig.comparison });
+  Object.assign(screenshot, {
+    comparison: result.algorithm,
+    regions: result.regions,
+    diffPixels: result.diffPixels,
+    diffRatio: result.diffPixels / (result.width * result.height),
+  });
+
+  if (failures.length > 0) {
+    const attach = async (suffix, body) => {
+      const name = screenshot.name.replace(/\.png$/, `-${suffix}.png`);
+      const filePath = testInfo.outputPath(...name.split('/'));
+      mkdirSync(dirname(filePath), { recursive: true });
+      writeFileSync(filePath, body);
+      await testInfo.attach(name, { path: filePath, contentType: 'image/png' });
+    };
+    await attach('expected', readFileSync(screenshot.baseline));
+    await attach('actual', actual);
+    await attach('diff', result.diff);
+  }
+
+  const assertion = soft ? comparisonExpect.soft(failures) : comparisonExpect(failures);
+  assertion.toPassComparison(screenshot.name, result.algorithm);
+}
+
+/**
+ * Attach the structure and text diff of a differing screenshot to the report
+ * and record its counts (and the actual content, for approving) in the metadata
+ */
+async function attachContentDiff(testInfo, screenshot, content) {
+  const baseline = loadContent(contentPath(screenshot.baseline));
+  if (!baseline) {
+    return;
+  }
+
+  const diff = diffContent(baseline, content);
+  const slug = slugify(screenshot.name);
+  const actualPath = testInfo.outputPath(`${slug}-content.json`);
+  const reportPath = testInfo.outputPath(`${slug}-content-diff.txt`);
+  saveContent(actualPath, content);
+  writeFileSync(reportPath, formatContentDiff(diff), 'utf-8');
+
+  screenshot.contentDiff = {
+    structure: summarizeDiff(diff.structure),
+    text: summarizeDiff(diff.text),
+    report: reportPath,
+    actual: actualPath,
+  };
+  await testInfo.attach(`content-diff: ${screenshot.name}`, { path: reportPath, contentType: 'text/plain' });
+}
+
+test.afterEach(async ({}, testInfo) => {
+  await attachMeta(testInfo);
+});
+
+// Create a test for each URL
+for (const url of urls) {
+  test(`VRT: ${url}`, async ({ page }, testInfo) => {
+    skipUnselected(testInfo, url);
+    testMeta(testInfo, { url, kind: 'page', name: 'page' });
+    await openPage(page, url, testInfo);
+
+    const nameParts = [urlSlug(url), 'page.png'];
+    if (vrtConfig.calibration) {
+      await applyCalibration(page, testInfo, url, nameParts);
+    }
 
     // Take full page screenshot and compare
-    await expect(page).toHaveScreenshot({
+    await compareScreenshot(testInfo, page, page, nameParts, {
+      ...screenshotOptions(page, testInfo, url),
       fullPage: true,
-      maxDiffPixels: threshold.maxDiffPixels,
-      maxDiffPixelRatio: threshold.maxDiffPixelRatio,
-      animations: 'disabled',
-      stylePath: stylePath,
-      timeout: 10000
     });
   });
+
+  // Create a test for each scenario matching this URL
+  for (const scenario of scenariosForURL(vrtConfig, url)) {
+    test(`VRT: ${url} [${scenario.name}]`, async ({ page }, testInfo) => {
+      skipUnselected(testInfo, url);
+      testMeta(testInfo, { url, kind: 'scenario', name: scenario.name });
+      await openPage(page, url, testInfo);
+
+      let screenshots = 0;
+      const takeScreenshot = async (name) => {
+        screenshots++;
+        const snapshotName = `scenario-${slugify(scenario.name)}--${slugify(name || screenshots)}.png`;
+        await compareScreenshot(testInfo, page, page, [urlSlug(url), snapshotName], {
+          ...screenshotOptions(page, testInfo, url),
+          fullPage: scenario.fullPage ?? true,
+        }, true);
+      };
+
+      await runScenario(page, scenario, takeScreenshot);
+
+      // Scenarios without explicit screenshot steps capture the final state
+      if (screenshots === 0) {
+        await takeScreenshot(scenario.name);
+      }
+    });
+  }
+
+  // Create a test for each element of each component on this URL
+  for (const component of componentsForURL(vrtConfig, url)) {
+    const maxElements = component.maxElements ?? 1;
+
+    for (let index = 0; index < maxElements; index++) {
+      const label = maxElements > 1 ? `${component.name} #${index + 1}` : component.name;
+
+      test(`VRT: ${url} [component:${label}]`, async ({ page }, testInfo) => {
+        skipUnselected(testInfo, url);
+        testMeta(testInfo, { url, kind: 'component', name: label });
+        await openPage(page, url, testInfo);
+
+        const element = page.locator(component.selector).nth(index);
+        const nameParts = [urlSlug(url), `component-${slugify(component.name)}-${index + 1}.png`];
+
+        if (await element.count() === 0) {
+          // A component with a baseline that is gone from the test site is a regression
+          const baseline = testInfo.snapshotPath(...nameParts, { kind: 'screenshot' });
+          test.skip(target === 'reference' || !existsSync(baseline), `Component "${label}" not found on page`);
+          testMeta(testInfo).screenshots.push({ name: nameParts.join('/'), baseline });
+          throw new Error(`Component "${label}" not found on page, but it has a baseline`);
+        }
+
+        await compareScreenshot(testInfo, page, element, nameParts, {
+          ...screenshotOptions(page, testInfo, url),
+          ...component.threshold,
+        });
+      });
+    }
+  }
 }